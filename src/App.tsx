@@ -4,24 +4,64 @@
  * Provides interactive interface for comparing course hierarchies (IC, CR, Honors)
  * Adapted for Chrome Extension side panel with expand/collapse functionality
  * Supports CSV file uploads and text paste input for course data
+ * Bulk files with several hierarchies are assigned to slots in one step
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { PasteInput } from './components/PasteInput';
 import { ComparisonView } from './components/ComparisonView';
-import { Hierarchy, ComparisonResult } from './types';
-import { generateComparisonResults } from './utils/comparisonEngine';
+import { CrosswalkPanel } from './components/CrosswalkPanel';
+import { NodeTypesPanel } from './components/NodeTypesPanel';
+import { HierarchyAssignmentStep, SlotAssignment } from './components/HierarchyAssignmentStep';
+import {
+  Hierarchy,
+  ComparisonResult,
+  ProductRuleDefinition,
+  ProductRuleViolation,
+  CrosswalkEntry,
+  MatchDecision,
+  NodeTypeDefinition,
+} from './types';
+import { evaluateAllProductRules, generateComparisonResults } from './utils/comparisonEngine';
+import { loadProductRules, saveProductRules } from './utils/productRules';
+import { loadCrosswalk, saveCrosswalk } from './utils/crosswalk';
+import { loadNodeTypes, saveNodeTypes } from './utils/nodeTypes';
+import { DEFAULT_FUZZY_THRESHOLD } from './utils/fuzzyMatch';
 import './App.css';
 
 type InputMode = 'upload' | 'paste';
 
+// Every comparison needs at least an anchor and one compared course
+const MIN_SLOTS = 2;
+// Paste mode starts with one slot per implementation model
+const PASTE_SLOT_LABELS = ['IC Course', 'CR Course', 'Honors Course'];
+
+const getDefaultSlotCount = (mode: InputMode): number =>
+  mode === 'paste' ? PASTE_SLOT_LABELS.length : MIN_SLOTS;
+
 function App() {
   const [inputMode, setInputMode] = useState<InputMode>('upload');
-  const [uploadedHierarchies, setUploadedHierarchies] = useState<Array<Hierarchy | null>>([null, null, null]);
+  const [uploadedHierarchies, setUploadedHierarchies] = useState<Array<Hierarchy | null>>(
+    () => new Array(getDefaultSlotCount('upload')).fill(null)
+  );
+  // Stable React keys so removing a slot does not shift the inputs below it
+  const [slotKeys, setSlotKeys] = useState<number[]>(() => Array.from({ length: getDefaultSlotCount('upload') }, (_, i) => i));
+  const nextSlotKey = useRef(getDefaultSlotCount('upload'));
   const [anchorHierarchyId, setAnchorHierarchyId] = useState<string | null>(null);
   const [comparisonResults, setComparisonResults] = useState<ComparisonResult[]>([]);
+  // Rule violations of every loaded hierarchy (the anchor has no comparison result of its own)
+  const [productRuleViolations, setProductRuleViolations] = useState<Record<string, ProductRuleViolation[]>>({});
   const [isExpanded, setIsExpanded] = useState(false);
+  const [productRules, setProductRules] = useState<ProductRuleDefinition[]>(() => loadProductRules());
+  const [crosswalk, setCrosswalk] = useState<CrosswalkEntry[]>(() => loadCrosswalk());
+  const [nodeTypes, setNodeTypes] = useState<NodeTypeDefinition[]>(() => loadNodeTypes());
+  const [fuzzyThreshold, setFuzzyThreshold] = useState<number>(DEFAULT_FUZZY_THRESHOLD);
+  const [matchDecisions, setMatchDecisions] = useState<Record<string, MatchDecision>>({});
+  // Extra CSV columns compared per lesson; null compares every column both courses have
+  const [comparedFields, setComparedFields] = useState<string[] | null>(null);
+  // Hierarchies from one bulk file, waiting to be assigned to slots
+  const [pendingHierarchies, setPendingHierarchies] = useState<{ position: number; hierarchies: Hierarchy[] } | null>(null);
 
   // Update CSS variable for expand/collapse state
   useEffect(() => {
@@ -34,12 +74,19 @@ function App() {
   // Generate comparison results when hierarchies change
   useEffect(() => {
     const validHierarchies = uploadedHierarchies.filter((h): h is Hierarchy => h !== null);
+    setProductRuleViolations(evaluateAllProductRules(validHierarchies, productRules));
     
     if (validHierarchies.length >= 2 && anchorHierarchyId) {
       const anchor = validHierarchies.find(h => h.id === anchorHierarchyId);
       if (anchor) {
         const compared = validHierarchies.filter(h => h.id !== anchorHierarchyId);
-        const results = generateComparisonResults(anchor, compared);
+        const results = generateComparisonResults(anchor, compared, {
+          productRules,
+          crosswalk,
+          fuzzyThreshold,
+          matchDecisions,
+          comparedFields: comparedFields ?? undefined,
+        });
         setComparisonResults(results);
       } else {
         setComparisonResults([]);
@@ -47,7 +94,7 @@ function App() {
     } else {
       setComparisonResults([]);
     }
-  }, [uploadedHierarchies, anchorHierarchyId]);
+  }, [uploadedHierarchies, anchorHierarchyId, productRules, crosswalk, fuzzyThreshold, matchDecisions, comparedFields]);
 
   const handleFileUploaded = (position: number, hierarchy: Hierarchy) => {
     const newUploaded = [...uploadedHierarchies];
@@ -73,6 +120,45 @@ function App() {
     }
   };
 
+  const handleHierarchiesFound = (position: number, hierarchies: Hierarchy[]) => {
+    setPendingHierarchies({ position, hierarchies });
+  };
+
+  const getDefaultAssignment = (position: number, count: number): SlotAssignment[] => {
+    // First hierarchy goes to the uploading slot, the rest fill empty slots, then new ones
+    const emptySlots = uploadedHierarchies
+      .map((hierarchy, index) => (hierarchy === null && index !== position ? index : -1))
+      .filter(index => index !== -1);
+    return Array.from({ length: count }, (_, index) =>
+      index === 0 ? position : emptySlots[index - 1] ?? 'new'
+    );
+  };
+
+  const handleApplyAssignment = (assignment: SlotAssignment[]) => {
+    if (!pendingHierarchies) return;
+
+    const newUploaded = [...uploadedHierarchies];
+    const newSlotKeys = [...slotKeys];
+    pendingHierarchies.hierarchies.forEach((hierarchy, index) => {
+      const slot = assignment[index];
+      if (slot === 'new') {
+        newUploaded.push(hierarchy);
+        newSlotKeys.push(nextSlotKey.current++);
+      } else if (slot !== null) {
+        newUploaded[slot] = hierarchy;
+      }
+    });
+    setUploadedHierarchies(newUploaded);
+    setSlotKeys(newSlotKeys);
+    setPendingHierarchies(null);
+
+    // Keep the anchor if it is still loaded, otherwise use the first loaded course
+    const loaded = newUploaded.filter((h): h is Hierarchy => h !== null);
+    if (!loaded.some(h => h.id === anchorHierarchyId)) {
+      setAnchorHierarchyId(loaded.length > 0 ? loaded[0].id : null);
+    }
+  };
+
   const handleTextPasted = (position: number, hierarchy: Hierarchy) => {
     const newUploaded = [...uploadedHierarchies];
     newUploaded[position] = hierarchy;
@@ -88,23 +174,69 @@ function App() {
     handleFileRemoved(position);
   };
 
+  const resetSlots = (count: number) => {
+    setUploadedHierarchies(new Array(count).fill(null));
+    setSlotKeys(Array.from({ length: count }, () => nextSlotKey.current++));
+  };
+
   const handleModeChange = (mode: InputMode) => {
     setInputMode(mode);
     // Clear all hierarchies when switching modes
-    setUploadedHierarchies([null, null, null]);
+    resetSlots(getDefaultSlotCount(mode));
     setAnchorHierarchyId(null);
+    setPendingHierarchies(null);
+  };
+
+  const handleAddSlot = () => {
+    setUploadedHierarchies([...uploadedHierarchies, null]);
+    setSlotKeys([...slotKeys, nextSlotKey.current++]);
+  };
+
+  const handleRemoveSlot = (position: number) => {
+    const removedId = uploadedHierarchies[position]?.id;
+    const newUploaded = uploadedHierarchies.filter((_, index) => index !== position);
+    setUploadedHierarchies(newUploaded);
+    setSlotKeys(slotKeys.filter((_, index) => index !== position));
+    // Slot positions shift, so a pending assignment no longer applies
+    setPendingHierarchies(null);
+
+    // Clear anchor if it was the removed hierarchy
+    if (removedId && removedId === anchorHierarchyId) {
+      const remaining = newUploaded.filter((h): h is Hierarchy => h !== null);
+      setAnchorHierarchyId(remaining.length > 0 ? remaining[0].id : null);
+    }
+  };
+
+  const handleProductRulesChange = (rules: ProductRuleDefinition[] | null) => {
+    // null restores the default rules
+    saveProductRules(rules);
+    setProductRules(loadProductRules());
   };
 
-  const handleAddThirdHierarchy = () => {
-    // Third slot is already available, just needs to be populated
+  const handleCrosswalkChange = (entries: CrosswalkEntry[]) => {
+    saveCrosswalk(entries);
+    setCrosswalk(entries);
   };
 
-  const handleRemoveThirdHierarchy = () => {
-    handleFileRemoved(2);
+  const handleNodeTypesChange = (types: NodeTypeDefinition[] | null) => {
+    // null restores the default vocabulary
+    saveNodeTypes(types);
+    setNodeTypes(loadNodeTypes());
   };
 
+  const getSlotLabel = (position: number): string => {
+    if (inputMode === 'paste' && position < PASTE_SLOT_LABELS.length) {
+      return PASTE_SLOT_LABELS[position];
+    }
+    return `Course ${position + 1}`;
+  };
+
+  const getOtherHierarchyIds = (position: number): string[] =>
+    uploadedHierarchies
+      .filter((h, index): h is Hierarchy => h !== null && index !== position)
+      .map(h => h.id);
+
   const selectedCount = uploadedHierarchies.filter(h => h !== null).length;
-  const showThirdSelector = selectedCount >= 2;
   const allHierarchies = uploadedHierarchies.filter((h): h is Hierarchy => h !== null);
 
   return (
@@ -156,90 +288,67 @@ function App() {
 
         {/* File Upload / Paste Section */}
         <section className="selection-section">
+          {pendingHierarchies && (
+            <HierarchyAssignmentStep
+              key={pendingHierarchies.hierarchies.map(h => h.id).join('|')}
+              hierarchies={pendingHierarchies.hierarchies}
+              slotLabels={uploadedHierarchies.map((hierarchy, position) =>
+                hierarchy ? `${getSlotLabel(position)} (replaces ${hierarchy.name})` : getSlotLabel(position)
+              )}
+              initialAssignment={getDefaultAssignment(pendingHierarchies.position, pendingHierarchies.hierarchies.length)}
+              onApply={handleApplyAssignment}
+              onCancel={() => setPendingHierarchies(null)}
+            />
+          )}
+
           <div className="selectors-container">
-            {inputMode === 'upload' ? (
-              <>
-                <FileUpload
-                  onFileUploaded={(hierarchy) => handleFileUploaded(0, hierarchy)}
-                  onFileRemoved={() => handleFileRemoved(0)}
-                  label="Course 1"
-                  position={0}
-                  uploadedHierarchy={uploadedHierarchies[0]}
-                />
-
-                <FileUpload
-                  onFileUploaded={(hierarchy) => handleFileUploaded(1, hierarchy)}
-                  onFileRemoved={() => handleFileRemoved(1)}
-                  label="Course 2"
-                  position={1}
-                  uploadedHierarchy={uploadedHierarchies[1]}
-                />
-
-                {showThirdSelector && (
+            {uploadedHierarchies.map((hierarchy, position) => (
+              <div key={slotKeys[position]} className="hierarchy-slot">
+                {inputMode === 'upload' ? (
                   <FileUpload
-                    onFileUploaded={(hierarchy) => handleFileUploaded(2, hierarchy)}
-                    onFileRemoved={() => handleFileRemoved(2)}
-                    label="Course 3 (Optional)"
-                    position={2}
-                    uploadedHierarchy={uploadedHierarchies[2]}
+                    onFileUploaded={(uploaded) => handleFileUploaded(position, uploaded)}
+                    onHierarchiesFound={(found) => handleHierarchiesFound(position, found)}
+                    onFileRemoved={() => handleFileRemoved(position)}
+                    label={getSlotLabel(position)}
+                    position={slotKeys[position]}
+                    uploadedHierarchy={hierarchy}
+                    otherHierarchyIds={getOtherHierarchyIds(position)}
+                  />
+                ) : (
+                  <PasteInput
+                    onTextPasted={(pasted) => handleTextPasted(position, pasted)}
+                    onTextRemoved={() => handleTextRemoved(position)}
+                    label={getSlotLabel(position)}
+                    position={slotKeys[position]}
+                    pastedHierarchy={hierarchy}
+                    nodeTypes={nodeTypes}
+                    otherHierarchyIds={getOtherHierarchyIds(position)}
                   />
                 )}
-              </>
-            ) : (
-              <>
-                <PasteInput
-                  onTextPasted={(hierarchy) => handleTextPasted(0, hierarchy)}
-                  onTextRemoved={() => handleTextRemoved(0)}
-                  label="IC Course"
-                  position={0}
-                  pastedHierarchy={uploadedHierarchies[0]}
-                />
-
-                <PasteInput
-                  onTextPasted={(hierarchy) => handleTextPasted(1, hierarchy)}
-                  onTextRemoved={() => handleTextRemoved(1)}
-                  label="CR Course"
-                  position={1}
-                  pastedHierarchy={uploadedHierarchies[1]}
-                />
-
-                <PasteInput
-                  onTextPasted={(hierarchy) => handleTextPasted(2, hierarchy)}
-                  onTextRemoved={() => handleTextRemoved(2)}
-                  label="Honors Course"
-                  position={2}
-                  pastedHierarchy={uploadedHierarchies[2]}
-                />
-              </>
-            )}
-          </div>
 
-          {/* Add/Remove Third Hierarchy Button - Only show in upload mode */}
-          {inputMode === 'upload' && (
-            <>
-              {!showThirdSelector && selectedCount === 2 && (
-                <div className="add-hierarchy-control">
+                {/* Slots beyond the first two can be removed */}
+                {position >= MIN_SLOTS && (
                   <button
-                    className="add-hierarchy-btn"
-                    onClick={handleAddThirdHierarchy}
+                    type="button"
+                    className="remove-hierarchy-btn remove-slot-btn"
+                    onClick={() => handleRemoveSlot(position)}
                   >
-                    + Add Third Hierarchy (for 3-way comparison)
+                    Remove {getSlotLabel(position)}
                   </button>
-                </div>
-              )}
+                )}
+              </div>
+            ))}
+          </div>
 
-              {showThirdSelector && (
-                <div className="remove-hierarchy-control">
-                  <button
-                    className="remove-hierarchy-btn"
-                    onClick={handleRemoveThirdHierarchy}
-                  >
-                    Remove Third Hierarchy
-                  </button>
-                </div>
-              )}
-            </>
-          )}
+          {/* Add another hierarchy for N-way comparison */}
+          <div className="add-hierarchy-control">
+            <button
+              className="add-hierarchy-btn"
+              onClick={handleAddSlot}
+            >
+              + Add Course ({uploadedHierarchies.length + 1}-way comparison)
+            </button>
+          </div>
 
           {/* Anchor Selection */}
           {selectedCount >= 2 && (
@@ -265,6 +374,20 @@ function App() {
               </div>
             </div>
           )}
+
+          {/* Lesson Crosswalk */}
+          <CrosswalkPanel
+            crosswalk={crosswalk}
+            onCrosswalkChange={handleCrosswalkChange}
+          />
+
+          {/* Node type vocabulary for pasted text */}
+          {inputMode === 'paste' && (
+            <NodeTypesPanel
+              nodeTypes={nodeTypes}
+              onNodeTypesChange={handleNodeTypesChange}
+            />
+          )}
         </section>
 
         {/* Comparison Results Section */}
@@ -275,8 +398,19 @@ function App() {
               h ? { hierarchyId: h.id, versionId: h.currentVersion?.versionId || h.versions[0]?.versionId || '' } : null
             )}
             comparisonResults={comparisonResults}
+            productRuleViolations={productRuleViolations}
             anchorHierarchyId={anchorHierarchyId}
             inputMode={inputMode}
+            productRules={productRules}
+            onProductRulesChange={handleProductRulesChange}
+            crosswalk={crosswalk}
+            onCrosswalkChange={handleCrosswalkChange}
+            fuzzyThreshold={fuzzyThreshold}
+            onFuzzyThresholdChange={setFuzzyThreshold}
+            comparedFields={comparedFields}
+            onComparedFieldsChange={setComparedFields}
+            matchDecisions={matchDecisions}
+            onMatchDecisionsChange={setMatchDecisions}
           />
         </section>
       </main>
@@ -285,7 +419,7 @@ function App() {
         <footer className="app-footer">
           <p>Wireframe for Course Hierarchy Comparison Feature</p>
           <p className="footer-note">
-            Use Case 1: Course builders compare 2 hierarchies | Use Case 2: Publishers compare 3 hierarchies
+            Use Case 1: Course builders compare 2 hierarchies | Use Case 2: Publishers compare 3 or more hierarchies
           </p>
         </footer>
       )}
@@ -0,0 +1,107 @@
+/**
+ * ColumnMappingStep Component
+ * Shows the headers detected in an uploaded CSV, the suggested column for each lesson field,
+ * and lets the user correct the mapping before the file is parsed
+ */
+
+import { useState } from 'react';
+import { ColumnMapping, CSV_FIELDS, CSVField, validateColumnMapping } from '../utils/columnMapping';
+import './ColumnMappingStep.css';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  headerRow: number;
+  isHeaderGuessed: boolean; // No recognizable header names; the first non-empty row is used as the header
+  sampleValues: string[]; // First data row, shown next to each header choice
+  initialMapping: ColumnMapping;
+  onApply: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const NOT_MAPPED = '';
+
+export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  headers,
+  headerRow,
+  isHeaderGuessed,
+  sampleValues,
+  initialMapping,
+  onApply,
+  onCancel,
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const errors = validateColumnMapping(mapping);
+
+  const handleChange = (field: CSVField, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  const describeColumn = (index: number) => {
+    const sample = sampleValues[index]?.trim();
+    const header = headers[index] || `Column ${index + 1}`;
+    return sample ? `${header} (e.g. ${sample.length > 30 ? `${sample.slice(0, 30)}…` : sample})` : header;
+  };
+
+  return (
+    <div className="column-mapping-step">
+      <div className="column-mapping-header">
+        Map columns <span className="column-mapping-meta">
+          {isHeaderGuessed ? `no known column names; row ${headerRow} used as header` : `header found in row ${headerRow}`} • {headers.length} columns
+        </span>
+      </div>
+
+      <div className="column-mapping-fields">
+        {CSV_FIELDS.map(definition => (
+          <label key={definition.field} className="column-mapping-field">
+            <span className="column-mapping-label">
+              {definition.header}
+              {definition.required && <span className="column-mapping-required">*</span>}
+            </span>
+            <select
+              value={mapping[definition.field] !== undefined ? String(mapping[definition.field]) : NOT_MAPPED}
+              onChange={(e) => handleChange(definition.field, e.target.value)}
+            >
+              <option value={NOT_MAPPED}>— Not mapped —</option>
+              {headers.map((_, index) => (
+                <option key={index} value={String(index)}>
+                  {describeColumn(index)}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="column-mapping-errors">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="column-mapping-actions">
+        <button
+          type="button"
+          className="column-mapping-apply"
+          onClick={() => onApply(mapping)}
+          disabled={errors.length > 0}
+        >
+          Apply Mapping
+        </button>
+        <button type="button" className="column-mapping-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+      <div className="upload-hint">
+        The mapping is remembered for files with the same columns
+      </div>
+    </div>
+  );
+};
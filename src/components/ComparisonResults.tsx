@@ -4,18 +4,19 @@
  * Shows metadata comparison side-by-side with anchor on the left
  */
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Hierarchy, ComparisonResult } from '../types';
+import { METADATA_FIELDS, getMetadataValue, isMetadataDifferent } from '../utils/courseMetadata';
 import './ComparisonResults.css';
 
 interface ComparisonResultsProps {
   comparisonResults: ComparisonResult[];
   selectedHierarchies: Array<{ hierarchyId: string; versionId: string } | null>;
   hierarchies: Hierarchy[];
-  viewMode: 'metadata' | 'lesson-comparison';
-  isTwoWay: boolean;
-  isThreeWay: boolean;
+  viewMode: 'metadata' | 'lesson-comparison' | 'lesson-matrix' | 'presence' | 'remediation';
   anchorHierarchyId: string | null;
+  currentComparisonIndex: number; // Compared course shown; kept by ComparisonView so Copy as Markdown can follow it
+  onComparisonIndexChange: (index: number) => void;
 }
 
 export const ComparisonResults: React.FC<ComparisonResultsProps> = ({
@@ -23,12 +24,10 @@ export const ComparisonResults: React.FC<ComparisonResultsProps> = ({
   selectedHierarchies,
   hierarchies,
   viewMode: _viewMode,
-  isTwoWay: _isTwoWay,
-  isThreeWay: _isThreeWay,
   anchorHierarchyId,
+  currentComparisonIndex,
+  onComparisonIndexChange,
 }) => {
-  const [currentComparisonIndex, setCurrentComparisonIndex] = useState<number>(0);
-
   // Get anchor hierarchy
   const anchorHierarchy = anchorHierarchyId
     ? hierarchies.find(h => h.id === anchorHierarchyId) || null
@@ -43,66 +42,6 @@ export const ComparisonResults: React.FC<ComparisonResultsProps> = ({
     })
     .filter((h): h is Hierarchy => h !== null);
 
-  // Reset comparison index if it's out of bounds
-  useEffect(() => {
-    if (currentComparisonIndex >= comparedHierarchies.length && comparedHierarchies.length > 0) {
-      setCurrentComparisonIndex(0);
-    }
-  }, [comparedHierarchies.length, currentComparisonIndex]);
-
-  // Get metadata field value from hierarchy
-  const getMetadataValue = (hierarchy: Hierarchy, field: string): any => {
-    switch (field) {
-      case 'Subject':
-        return hierarchy.subject || 'Not Set Yet';
-      case 'Implementation Model':
-        return hierarchy.implementationModel || 'Not Set Yet';
-      case 'Course ID':
-        return hierarchy.courseId || 'Not Set Yet';
-      case 'Type':
-        return hierarchy.type || 'Not Set Yet';
-      case 'Version':
-        return hierarchy.currentVersion?.versionNumber || 'Not Set Yet';
-      case 'Publishing Restrictions':
-        return 'Not Set Yet'; // Mock data
-      case 'Course Prerequisites':
-        return 'Not Set Yet'; // Mock data
-      case 'Description':
-        return 'Not Set Yet'; // Mock data
-      case 'Course Length':
-        return 'Year'; // Mock data
-      case 'Series':
-        return ['EdgeEX']; // Mock data
-      case 'State Specific':
-        return ''; // Mock data
-      default:
-        return 'Not Set Yet';
-    }
-  };
-
-  // Check if field values differ
-  const isFieldDifferent = (anchorValue: any, comparedValue: any): boolean => {
-    if (Array.isArray(anchorValue) && Array.isArray(comparedValue)) {
-      return JSON.stringify(anchorValue) !== JSON.stringify(comparedValue);
-    }
-    return String(anchorValue) !== String(comparedValue);
-  };
-
-  // Get all metadata fields to display
-  const metadataFields = [
-    'Subject',
-    'Publishing Restrictions',
-    'Course Prerequisites',
-    'Description',
-    'Implementation Model',
-    'Course Length',
-    'Series',
-    'State Specific',
-    'Course ID',
-    'Type',
-    'Version',
-  ];
-
   const renderSideBySideMetadata = () => {
     if (!anchorHierarchy) {
       return (
@@ -152,10 +91,10 @@ export const ComparisonResults: React.FC<ComparisonResultsProps> = ({
           </div>
 
           <div className="metadata-table-body">
-            {metadataFields.map((field) => {
+            {METADATA_FIELDS.map((field) => {
               const anchorValue = getMetadataValue(anchorHierarchy, field);
               const comparedValue = getMetadataValue(comparedHierarchy, field);
-              const isDifferent = isFieldDifferent(anchorValue, comparedValue);
+              const isDifferent = isMetadataDifferent(anchorValue, comparedValue);
 
               return (
                 <div
@@ -208,7 +147,7 @@ export const ComparisonResults: React.FC<ComparisonResultsProps> = ({
           <div className="metadata-comparison-navigation">
             <button
               className="nav-button"
-              onClick={() => setCurrentComparisonIndex(currentComparisonIndex - 1)}
+              onClick={() => onComparisonIndexChange(currentComparisonIndex - 1)}
               disabled={currentComparisonIndex === 0}
             >
               ← Previous
@@ -218,7 +157,7 @@ export const ComparisonResults: React.FC<ComparisonResultsProps> = ({
             </span>
             <button
               className="nav-button"
-              onClick={() => setCurrentComparisonIndex(currentComparisonIndex + 1)}
+              onClick={() => onComparisonIndexChange(currentComparisonIndex + 1)}
               disabled={currentComparisonIndex === comparedHierarchies.length - 1}
             >
               Next →
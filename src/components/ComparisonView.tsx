@@ -1,35 +1,72 @@
 /**
  * ComparisonView Component
- * Main comparison interface supporting 2 or 3 hierarchy side-by-side comparison
- * Displays metadata issues and lesson comparison
+ * Main comparison interface supporting side-by-side comparison of 2 or more hierarchies
+ * Displays metadata issues, lesson comparison, the lesson matrix, lesson presence, product rule compliance
+ * and the remediation plan
+ * The full comparison can be exported as CSV or as an HTML review report from the summary bar,
+ * or copied as Markdown limited to what the current view shows (its compared course or presence category)
  */
 
 import React, { useState, useEffect } from 'react';
-import { Hierarchy, ComparisonResult } from '../types';
+import { Hierarchy, ComparisonResult, ProductRuleDefinition, ProductRuleViolation, CrosswalkEntry, MatchDecision } from '../types';
 import { ComparisonResults } from './ComparisonResults';
 import { LessonComparisonView } from './LessonComparisonView';
+import { LessonMatrixView } from './LessonMatrixView';
+import { PresenceView } from './PresenceView';
+import { ProductRulesPanel } from './ProductRulesPanel';
+import { RemediationView } from './RemediationView';
+import { getComparisonFileName, serializeComparisonCSV } from '../utils/comparisonExport';
+import { buildComparisonReport } from '../utils/comparisonReport';
+import { buildComparisonMarkdown } from '../utils/comparisonMarkdown';
+import { downloadFile } from '../utils/download';
 import './ComparisonView.css';
 
 interface ComparisonViewProps {
   hierarchies: Hierarchy[];
   selectedHierarchies: Array<{ hierarchyId: string; versionId: string } | null>;
   comparisonResults: ComparisonResult[];
+  productRuleViolations: Record<string, ProductRuleViolation[]>; // Every loaded hierarchy, anchor included
   anchorHierarchyId: string | null;
   inputMode?: 'upload' | 'paste';
+  productRules: ProductRuleDefinition[];
+  onProductRulesChange: (rules: ProductRuleDefinition[] | null) => void;
+  crosswalk: CrosswalkEntry[];
+  onCrosswalkChange: (crosswalk: CrosswalkEntry[]) => void;
+  fuzzyThreshold: number;
+  onFuzzyThresholdChange: (threshold: number) => void;
+  comparedFields: string[] | null; // null compares every shared column
+  onComparedFieldsChange: (fields: string[] | null) => void;
+  matchDecisions: Record<string, MatchDecision>;
+  onMatchDecisionsChange: (decisions: Record<string, MatchDecision>) => void;
 }
 
-type ViewMode = 'metadata' | 'lesson-comparison';
+type ViewMode = 'metadata' | 'lesson-comparison' | 'lesson-matrix' | 'presence' | 'remediation' | 'product-rules';
 
 export const ComparisonView: React.FC<ComparisonViewProps> = ({
   hierarchies,
   selectedHierarchies,
   comparisonResults,
+  productRuleViolations,
   anchorHierarchyId,
   inputMode = 'upload',
+  productRules,
+  onProductRulesChange,
+  crosswalk,
+  onCrosswalkChange,
+  fuzzyThreshold,
+  onFuzzyThresholdChange,
+  comparedFields,
+  onComparedFieldsChange,
+  matchDecisions,
+  onMatchDecisionsChange,
 }) => {
   // Default to lesson-comparison view for paste mode (no metadata available)
   const [viewMode, setViewMode] = useState<ViewMode>(inputMode === 'paste' ? 'lesson-comparison' : 'metadata');
   const [currentComparisonIndex, setCurrentComparisonIndex] = useState<number>(0);
+  // Filters of the other tabs, kept here so Copy as Markdown copies what the tab shows
+  const [metadataComparisonIndex, setMetadataComparisonIndex] = useState<number>(0);
+  const [presenceCategory, setPresenceCategory] = useState<string | null>(null);
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
 
   // Update view mode when input mode changes
   useEffect(() => {
@@ -39,8 +76,6 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({
   }, [inputMode]);
 
   const selectedCount = selectedHierarchies.filter(h => h !== null).length;
-  const isTwoWay = selectedCount === 2;
-  const isThreeWay = selectedCount === 3;
 
   // Get anchor hierarchy
   const anchorHierarchy = anchorHierarchyId
@@ -56,12 +91,62 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({
     })
     .filter((h): h is Hierarchy => h !== null);
 
-  // Reset comparison index if it's out of bounds
+  // Engine result (and its lesson alignment) for a compared hierarchy
+  const getComparisonResult = (hierarchy: Hierarchy): ComparisonResult | null =>
+    comparisonResults.find(r => r.hierarchyId === hierarchy.id) || null;
+
+  const handleExportCSV = () => {
+    if (!anchorHierarchy) return;
+    downloadFile(
+      serializeComparisonCSV(comparisonResults, anchorHierarchy, productRuleViolations[anchorHierarchy.id]),
+      getComparisonFileName(anchorHierarchy, 'csv'),
+      'text/csv'
+    );
+  };
+
+  const handleExportReport = () => {
+    if (!anchorHierarchy) return;
+    downloadFile(
+      buildComparisonReport(anchorHierarchy, comparedHierarchies, comparisonResults, {
+        includeMetadata: inputMode === 'upload',
+        anchorRuleViolations: productRuleViolations[anchorHierarchy.id],
+      }),
+      getComparisonFileName(anchorHierarchy, 'html'),
+      'text/html'
+    );
+  };
+
+  // Lesson Comparison and Metadata Issues show one compared course at a time, Presence one category
+  const handleCopyMarkdown = async () => {
+    if (!anchorHierarchy) return;
+    const pagedIndex = viewMode === 'lesson-comparison'
+      ? currentComparisonIndex
+      : viewMode === 'metadata' ? metadataComparisonIndex : null;
+    const markdown = buildComparisonMarkdown(anchorHierarchy, comparedHierarchies, comparisonResults, {
+      fuzzyThreshold,
+      comparedFields,
+      anchorRuleViolations: productRuleViolations[anchorHierarchy.id],
+      comparedHierarchyId: pagedIndex !== null ? comparedHierarchies[pagedIndex]?.id : undefined,
+      presenceCategory: viewMode === 'presence' ? presenceCategory : undefined,
+    });
+    try {
+      await navigator.clipboard.writeText(markdown);
+      setCopyStatus('copied');
+    } catch {
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  // Reset comparison indexes if they're out of bounds
   useEffect(() => {
     if (currentComparisonIndex >= comparedHierarchies.length && comparedHierarchies.length > 0) {
       setCurrentComparisonIndex(0);
     }
-  }, [comparedHierarchies.length, currentComparisonIndex]);
+    if (metadataComparisonIndex >= comparedHierarchies.length && comparedHierarchies.length > 0) {
+      setMetadataComparisonIndex(0);
+    }
+  }, [comparedHierarchies.length, currentComparisonIndex, metadataComparisonIndex]);
 
   if (selectedCount < 2) {
     return (
@@ -94,24 +179,92 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({
               Lesson Comparison
             </button>
           )}
+          {anchorHierarchy && (
+            <button
+              className={`tab ${viewMode === 'lesson-matrix' ? 'active' : ''}`}
+              onClick={() => setViewMode('lesson-matrix')}
+            >
+              Lesson Matrix
+            </button>
+          )}
+          {anchorHierarchy && (
+            <button
+              className={`tab ${viewMode === 'presence' ? 'active' : ''}`}
+              onClick={() => setViewMode('presence')}
+            >
+              Presence
+            </button>
+          )}
+          {anchorHierarchy && (
+            <button
+              className={`tab ${viewMode === 'remediation' ? 'active' : ''}`}
+              onClick={() => setViewMode('remediation')}
+            >
+              Remediation
+            </button>
+          )}
+          <button
+            className={`tab ${viewMode === 'product-rules' ? 'active' : ''}`}
+            onClick={() => setViewMode('product-rules')}
+          >
+            Product Rules
+          </button>
         </div>
       )}
-      {/* Show only Lesson Comparison tab in paste mode */}
+      {/* Show only the lesson tabs in paste mode */}
       {inputMode === 'paste' && anchorHierarchy && (
         <div className="view-mode-tabs">
           <button
-            className={`tab active`}
-            disabled
+            className={`tab ${viewMode !== 'lesson-matrix' && viewMode !== 'presence' && viewMode !== 'remediation' ? 'active' : ''}`}
+            onClick={() => setViewMode('lesson-comparison')}
           >
             Lesson Comparison
           </button>
+          <button
+            className={`tab ${viewMode === 'lesson-matrix' ? 'active' : ''}`}
+            onClick={() => setViewMode('lesson-matrix')}
+          >
+            Lesson Matrix
+          </button>
+          <button
+            className={`tab ${viewMode === 'presence' ? 'active' : ''}`}
+            onClick={() => setViewMode('presence')}
+          >
+            Presence
+          </button>
+          <button
+            className={`tab ${viewMode === 'remediation' ? 'active' : ''}`}
+            onClick={() => setViewMode('remediation')}
+          >
+            Remediation
+          </button>
         </div>
       )}
 
       {/* Comparison Content */}
       <div className="comparison-content">
-        {/* In paste mode, always show lesson comparison; in upload mode, respect viewMode */}
-        {((inputMode === 'paste' && anchorHierarchy) || (viewMode === 'lesson-comparison' && anchorHierarchy)) ? (
+        {/* In paste mode, always show a lesson tab; in upload mode, respect viewMode */}
+        {viewMode === 'lesson-matrix' && anchorHierarchy ? (
+          <LessonMatrixView
+            anchorHierarchy={anchorHierarchy}
+            comparedHierarchies={comparedHierarchies}
+            comparisonResults={comparisonResults}
+          />
+        ) : viewMode === 'presence' && anchorHierarchy ? (
+          <PresenceView
+            anchorHierarchy={anchorHierarchy}
+            comparedHierarchies={comparedHierarchies}
+            comparisonResults={comparisonResults}
+            selectedCategory={presenceCategory}
+            onSelectedCategoryChange={setPresenceCategory}
+          />
+        ) : viewMode === 'remediation' && anchorHierarchy ? (
+          <RemediationView
+            anchorHierarchy={anchorHierarchy}
+            comparedHierarchies={comparedHierarchies}
+            comparisonResults={comparisonResults}
+          />
+        ) : ((inputMode === 'paste' && anchorHierarchy) || (viewMode === 'lesson-comparison' && anchorHierarchy)) ? (
           <div className="lesson-comparison-container">
             {comparedHierarchies.length === 0 ? (
               <div className="lesson-comparison-empty">
@@ -121,7 +274,16 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({
               <LessonComparisonView
                 anchorHierarchy={anchorHierarchy}
                 comparedHierarchy={comparedHierarchies[0]}
+                comparisonResult={getComparisonResult(comparedHierarchies[0])}
                 hierarchies={hierarchies}
+                crosswalk={crosswalk}
+                onCrosswalkChange={onCrosswalkChange}
+                fuzzyThreshold={fuzzyThreshold}
+                onFuzzyThresholdChange={onFuzzyThresholdChange}
+                comparedFields={comparedFields}
+                onComparedFieldsChange={onComparedFieldsChange}
+                matchDecisions={matchDecisions}
+                onMatchDecisionsChange={onMatchDecisionsChange}
               />
             ) : (
               <div className="multi-comparison-view">
@@ -147,20 +309,38 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({
                 <LessonComparisonView
                   anchorHierarchy={anchorHierarchy}
                   comparedHierarchy={comparedHierarchies[currentComparisonIndex]}
+                  comparisonResult={getComparisonResult(comparedHierarchies[currentComparisonIndex])}
                   hierarchies={hierarchies}
+                  crosswalk={crosswalk}
+                  onCrosswalkChange={onCrosswalkChange}
+                  fuzzyThreshold={fuzzyThreshold}
+                  onFuzzyThresholdChange={onFuzzyThresholdChange}
+                  comparedFields={comparedFields}
+                  onComparedFieldsChange={onComparedFieldsChange}
+                  matchDecisions={matchDecisions}
+                  onMatchDecisionsChange={onMatchDecisionsChange}
                 />
               </div>
             )}
           </div>
+        ) : viewMode === 'product-rules' ? (
+          <ProductRulesPanel
+            productRuleViolations={productRuleViolations}
+            selectedHierarchies={selectedHierarchies}
+            hierarchies={hierarchies}
+            anchorHierarchyId={anchorHierarchyId}
+            productRules={productRules}
+            onProductRulesChange={onProductRulesChange}
+          />
         ) : (
           <ComparisonResults
             comparisonResults={comparisonResults}
             selectedHierarchies={selectedHierarchies}
             hierarchies={hierarchies}
             viewMode={viewMode}
-            isTwoWay={isTwoWay}
-            isThreeWay={isThreeWay}
             anchorHierarchyId={anchorHierarchyId}
+            currentComparisonIndex={metadataComparisonIndex}
+            onComparisonIndexChange={setMetadataComparisonIndex}
           />
         )}
       </div>
@@ -173,6 +353,25 @@ export const ComparisonView: React.FC<ComparisonViewProps> = ({
             {comparisonResults.reduce((sum, r) => sum + r.metadataIssues.length, 0)}
           </span>
         </div>
+        <div className="summary-stat">
+          <span className="stat-label">Rule Violations:</span>
+          <span className="stat-value error">
+            {Object.values(productRuleViolations).reduce((sum, violations) => sum + violations.length, 0)}
+          </span>
+        </div>
+        {anchorHierarchy && comparisonResults.length > 0 && (
+          <div className="summary-actions">
+            <button className="export-button" onClick={handleExportCSV} title="Download lessons, children, differences, metadata issues and rule violations">
+              Export CSV
+            </button>
+            <button className="export-button" onClick={handleExportReport} title="Download a standalone HTML report for review and sign-off">
+              Export Report
+            </button>
+            <button className="export-button" onClick={handleCopyMarkdown} title="Copy the comparison shown in this tab as Markdown">
+              {copyStatus === 'copied' ? 'Copied!' : copyStatus === 'failed' ? 'Copy failed' : 'Copy as Markdown'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
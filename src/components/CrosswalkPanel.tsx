@@ -0,0 +1,95 @@
+/**
+ * CrosswalkPanel Component
+ * Imports, exports and clears the lesson crosswalk (IC ID, CR ID, Honors ID)
+ * The crosswalk links lessons whose IDs differ between implementation models
+ */
+
+import { useState, useRef } from 'react';
+import { CrosswalkEntry } from '../types';
+import { parseCrosswalkCSV, serializeCrosswalkCSV } from '../utils/crosswalk';
+import { readFileAsText } from '../utils/csvParser';
+import { downloadFile } from '../utils/download';
+import './CrosswalkPanel.css';
+
+interface CrosswalkPanelProps {
+  crosswalk: CrosswalkEntry[];
+  onCrosswalkChange: (crosswalk: CrosswalkEntry[]) => void;
+}
+
+export const CrosswalkPanel: React.FC<CrosswalkPanelProps> = ({
+  crosswalk,
+  onCrosswalkChange,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const content = await readFileAsText(file);
+      onCrosswalkChange(parseCrosswalkCSV(content));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import crosswalk');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleExport = () => {
+    downloadFile(serializeCrosswalkCSV(crosswalk), 'lesson-crosswalk.csv', 'text/csv');
+  };
+
+  const handleClear = () => {
+    setError(null);
+    onCrosswalkChange([]);
+  };
+
+  return (
+    <div className="crosswalk-panel">
+      <div className="crosswalk-info">
+        <span className="crosswalk-label">Lesson Crosswalk:</span>
+        <span className="crosswalk-count">
+          {crosswalk.length === 0 ? 'None loaded' : `${crosswalk.length} linked lessons`}
+        </span>
+      </div>
+      <div className="crosswalk-actions">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv"
+          onChange={handleImport}
+          className="crosswalk-file-input"
+          id="crosswalk-file-input"
+        />
+        <label htmlFor="crosswalk-file-input" className="crosswalk-button">
+          Import CSV
+        </label>
+        <button
+          type="button"
+          className="crosswalk-button"
+          onClick={handleExport}
+          disabled={crosswalk.length === 0}
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          className="crosswalk-button"
+          onClick={handleClear}
+          disabled={crosswalk.length === 0}
+        >
+          Clear
+        </button>
+      </div>
+      {error && <div className="crosswalk-error">{error}</div>}
+      <div className="crosswalk-hint">
+        CSV with IC ID, CR ID and Honors ID columns; matched before lesson IDs and titles
+      </div>
+    </div>
+  );
+};
@@ -1,53 +1,150 @@
 /**
  * FileUpload Component
- * Allows users to upload CSV files containing course hierarchy data
+ * Allows users to upload CSV files or Excel workbooks containing course hierarchy data
  * Replaces the HierarchySelector for file-based input
+ * Also imports and exports hierarchies saved as JSON (see utils/hierarchyJson.ts)
+ * Workbooks with several sheets let the user pick the sheet; files with non-standard headers
+ * go through a column-mapping step before parsing
+ * Rows the parser skipped or had to guess at are listed before the course is loaded
  */
 
 import { useState, useRef } from 'react';
-import { Hierarchy } from '../types';
+import { WorkBook } from 'xlsx';
+import { Hierarchy, ParseDiagnostic } from '../types';
+import { CSVParseResult, CSVTable } from '../utils/csvParser';
+import {
+  ColumnMapping,
+  getHeaderSignature,
+  loadColumnMapping,
+  saveColumnMapping,
+  suggestColumnMapping,
+} from '../utils/columnMapping';
+import { downloadFile } from '../utils/download';
+import { getHierarchyFileName, serializeHierarchyFile } from '../utils/hierarchyJson';
+import { ColumnMappingStep } from './ColumnMappingStep';
+import { ParseDiagnostics } from './ParseDiagnostics';
 import './FileUpload.css';
 
 interface FileUploadProps {
   onFileUploaded: (hierarchy: Hierarchy) => void;
+  onHierarchiesFound: (hierarchies: Hierarchy[]) => void; // File contains several Hierarchy IDs
   onFileRemoved: () => void;
   label: string;
   position: number;
   uploadedHierarchy: Hierarchy | null;
+  otherHierarchyIds: string[]; // IDs loaded in the other slots; an imported JSON file with one of them is re-IDed
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
   onFileUploaded,
+  onHierarchiesFound,
   onFileRemoved,
   label,
   position,
   uploadedHierarchy,
+  otherHierarchyIds,
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Last parsed table, kept so the column mapping can be reviewed after upload
+  const [csvTable, setCsvTable] = useState<CSVTable | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [isMappingColumns, setIsMappingColumns] = useState(false);
+  // Uploaded Excel workbook and the sheet its lessons are read from
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState<string>('');
+  const [isPickingSheet, setIsPickingSheet] = useState(false);
+  // Parsed file with diagnostics, held back until it is used anyway
+  const [pendingResult, setPendingResult] = useState<CSVParseResult | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const deliverHierarchies = (hierarchies: Hierarchy[]) => {
+    if (hierarchies.length > 1) {
+      onHierarchiesFound(hierarchies);
+    } else {
+      onFileUploaded(hierarchies[0]);
+    }
+  };
+
+  const applyMapping = async (table: CSVTable, mapping: ColumnMapping) => {
+    const { mapCSVRows, csvRowsToHierarchies } = await import('../utils/csvParser');
+    const diagnostics: ParseDiagnostic[] = [];
+    const hierarchies = csvRowsToHierarchies(mapCSVRows(table, mapping, diagnostics), diagnostics);
+    setColumnMapping(mapping);
+    setIsMappingColumns(false);
+    if (diagnostics.length > 0) {
+      setPendingResult({ hierarchies, diagnostics });
+    } else {
+      setPendingResult(null);
+      deliverHierarchies(hierarchies);
+    }
+  };
+
+  const loadTable = async (table: CSVTable) => {
+    setCsvTable(table);
+
+    // Remembered mapping for these headers, or the standard layout, is applied directly
+    const savedMapping = loadColumnMapping(getHeaderSignature(table.headers));
+    const suggestion = suggestColumnMapping(table.headers);
+    if (savedMapping || suggestion.isStandard) {
+      await applyMapping(table, savedMapping || suggestion.mapping);
+    } else {
+      setColumnMapping(suggestion.mapping);
+      setIsMappingColumns(true);
+    }
+  };
+
+  const loadSheet = async (sourceWorkbook: WorkBook, sheetName: string) => {
+    const { getSheetRecords } = await import('../utils/xlsxReader');
+    const { buildCSVTable } = await import('../utils/csvParser');
+    setIsPickingSheet(false);
+    await loadTable(buildCSVTable(getSheetRecords(sourceWorkbook, sheetName)));
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    if (!file.name.endsWith('.csv')) {
-      setError('Please upload a CSV file');
+    // Validate file type (tab-separated exports are read by the same parser)
+    const isWorkbook = /\.xlsx$/i.test(file.name);
+    const isHierarchyFile = /\.json$/i.test(file.name);
+    if (!isWorkbook && !isHierarchyFile && !/\.(csv|tsv|txt)$/i.test(file.name)) {
+      setError('Please upload a CSV file (.csv, .tsv or .txt), an Excel workbook (.xlsx) or a hierarchy JSON file');
       return;
     }
 
     setIsProcessing(true);
     setError(null);
+    setPendingResult(null);
 
     try {
       // Dynamically import the CSV parser
-      const { processCSVFile } = await import('../utils/csvParser');
-      const hierarchy = await processCSVFile(file);
-      onFileUploaded(hierarchy);
+      const { readFileAsArrayBuffer, readFileAsText, readCSVTable } = await import('../utils/csvParser');
+      if (isWorkbook) {
+        // SheetJS is only loaded when a workbook is uploaded
+        const { readWorkbook, findDataSheet } = await import('../utils/xlsxReader');
+        const uploadedWorkbook = readWorkbook(await readFileAsArrayBuffer(file));
+        const dataSheet = findDataSheet(uploadedWorkbook);
+        setWorkbook(uploadedWorkbook);
+        setSelectedSheet(dataSheet);
+        if (uploadedWorkbook.SheetNames.length > 1) {
+          setIsPickingSheet(true);
+        } else {
+          await loadSheet(uploadedWorkbook, dataSheet);
+        }
+      } else if (isHierarchyFile) {
+        const { parseHierarchyFile, withUniqueHierarchyId } = await import('../utils/hierarchyJson');
+        const hierarchy = withUniqueHierarchyId(parseHierarchyFile(await readFileAsText(file)), otherHierarchyIds, label);
+        setWorkbook(null);
+        setCsvTable(null);
+        onFileUploaded(hierarchy);
+      } else {
+        setWorkbook(null);
+        await loadTable(readCSVTable(await readFileAsText(file)));
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process CSV file');
-      console.error('Error processing CSV:', err);
+      setError(err instanceof Error ? err.message : 'Failed to process file');
+      console.error('Error processing upload:', err);
     } finally {
       setIsProcessing(false);
       // Reset file input to allow re-uploading the same file
@@ -57,11 +154,76 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     }
   };
 
+  const handleLoadSheet = async () => {
+    if (!workbook) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      await loadSheet(workbook, selectedSheet);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to read sheet "${selectedSheet}"`);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleCancelSheet = () => {
+    setIsPickingSheet(false);
+    // Nothing was loaded yet when the sheet picker came up during upload
+    if (!uploadedHierarchy) {
+      setWorkbook(null);
+    }
+  };
+
+  const handleApplyMapping = async (mapping: ColumnMapping) => {
+    if (!csvTable) return;
+    try {
+      await applyMapping(csvTable, mapping);
+      saveColumnMapping(getHeaderSignature(csvTable.headers), mapping);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process CSV file');
+    }
+  };
+
+  const handleCancelMapping = () => {
+    setIsMappingColumns(false);
+    // Nothing was loaded yet when the mapping step came up during upload
+    if (!uploadedHierarchy) {
+      setCsvTable(null);
+    }
+  };
+
+  const handleUseAnyway = () => {
+    if (!pendingResult) return;
+    deliverHierarchies(pendingResult.hierarchies);
+    setPendingResult(null);
+  };
+
+  const handleCancelDiagnostics = () => {
+    setPendingResult(null);
+    // Nothing was loaded yet when the diagnostics came up during upload
+    if (!uploadedHierarchy) {
+      setCsvTable(null);
+      setWorkbook(null);
+    }
+  };
+
+  const handleExport = () => {
+    if (!uploadedHierarchy) return;
+    downloadFile(serializeHierarchyFile(uploadedHierarchy), getHierarchyFileName(uploadedHierarchy), 'application/json');
+  };
+
   const handleRemove = () => {
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
     setError(null);
+    setCsvTable(null);
+    setIsMappingColumns(false);
+    setWorkbook(null);
+    setIsPickingSheet(false);
+    setPendingResult(null);
     onFileRemoved();
   };
 
@@ -70,12 +232,68 @@ export const FileUpload: React.FC<FileUploadProps> = ({
       <label className="upload-label">{label}</label>
       
       <div className="upload-container">
-        {!uploadedHierarchy ? (
+        {isPickingSheet && workbook ? (
+          <div className="sheet-picker">
+            <label className="sheet-picker-label">
+              Sheet:
+              <select value={selectedSheet} onChange={(e) => setSelectedSheet(e.target.value)}>
+                {workbook.SheetNames.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            <div className="sheet-picker-actions">
+              <button
+                type="button"
+                className="column-mapping-apply"
+                onClick={handleLoadSheet}
+                disabled={isProcessing}
+              >
+                Load Sheet
+              </button>
+              <button type="button" className="column-mapping-cancel" onClick={handleCancelSheet}>
+                Cancel
+              </button>
+            </div>
+            {error && <div className="upload-error">{error}</div>}
+          </div>
+        ) : isMappingColumns && csvTable ? (
+          <>
+            <ColumnMappingStep
+              headers={csvTable.headers}
+              headerRow={csvTable.headerRow}
+              isHeaderGuessed={csvTable.isHeaderGuessed}
+              sampleValues={csvTable.records[0]?.values || []}
+              initialMapping={columnMapping}
+              onApply={handleApplyMapping}
+              onCancel={handleCancelMapping}
+            />
+            {error && <div className="upload-error">{error}</div>}
+          </>
+        ) : pendingResult ? (
+          <>
+            <ParseDiagnostics
+              diagnostics={pendingResult.diagnostics}
+              lineLabel="Row"
+              onAccept={handleUseAnyway}
+              onCancel={handleCancelDiagnostics}
+            />
+            {csvTable && (
+              <button
+                type="button"
+                className="edit-mapping-button"
+                onClick={() => setIsMappingColumns(true)}
+              >
+                Edit column mapping
+              </button>
+            )}
+          </>
+        ) : !uploadedHierarchy ? (
           <>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.tsv,.txt,.xlsx,.json"
               onChange={handleFileSelect}
               className="file-input"
               id={`file-input-${position}`}
@@ -93,13 +311,13 @@ export const FileUpload: React.FC<FileUploadProps> = ({
               ) : (
                 <>
                   <span className="upload-icon">📁</span>
-                  Upload CSV File
+                  Upload CSV or Excel File
                 </>
               )}
             </label>
             {error && <div className="upload-error">{error}</div>}
             <div className="upload-hint">
-              Select a CSV file containing course lesson metadata
+              Select a CSV file or Excel workbook containing course lesson metadata, or a saved hierarchy (.json)
             </div>
           </>
         ) : (
@@ -112,6 +330,31 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                   {uploadedHierarchy.lessons?.length || 0} lessons • {uploadedHierarchy.subject || 'Unknown Subject'}
                   {uploadedHierarchy.implementationModel && ` • ${uploadedHierarchy.implementationModel}`}
                 </div>
+                {workbook && workbook.SheetNames.length > 1 && (
+                  <button
+                    type="button"
+                    className="edit-mapping-button"
+                    onClick={() => setIsPickingSheet(true)}
+                  >
+                    Change sheet ({selectedSheet})
+                  </button>
+                )}
+                {csvTable && (
+                  <button
+                    type="button"
+                    className="edit-mapping-button"
+                    onClick={() => setIsMappingColumns(true)}
+                  >
+                    Edit column mapping
+                  </button>
+                )}
+                <button
+                  type="button"
+                  className="edit-mapping-button"
+                  onClick={handleExport}
+                >
+                  Export JSON
+                </button>
               </div>
             </div>
             <button
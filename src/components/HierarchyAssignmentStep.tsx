@@ -0,0 +1,115 @@
+/**
+ * HierarchyAssignmentStep Component
+ * Shown when one uploaded file (e.g. a bulk report) contains several hierarchies
+ * Lets the user assign each hierarchy to a comparison slot, a new slot, or skip it
+ */
+
+import { useState } from 'react';
+import { Hierarchy } from '../types';
+import './HierarchyAssignmentStep.css';
+
+/**
+ * Slot index the hierarchy is loaded into, 'new' for an added slot, or null to skip it
+ */
+export type SlotAssignment = number | 'new' | null;
+
+interface HierarchyAssignmentStepProps {
+  hierarchies: Hierarchy[];
+  slotLabels: string[]; // Label of each existing slot, in slot order
+  initialAssignment: SlotAssignment[];
+  onApply: (assignment: SlotAssignment[]) => void;
+  onCancel: () => void;
+}
+
+const NEW_SLOT = 'new';
+const SKIP = '';
+
+const toOptionValue = (assignment: SlotAssignment): string =>
+  assignment === null ? SKIP : String(assignment);
+
+const fromOptionValue = (value: string): SlotAssignment =>
+  value === SKIP ? null : value === NEW_SLOT ? 'new' : Number(value);
+
+export const HierarchyAssignmentStep: React.FC<HierarchyAssignmentStepProps> = ({
+  hierarchies,
+  slotLabels,
+  initialAssignment,
+  onApply,
+  onCancel,
+}) => {
+  const [assignment, setAssignment] = useState<SlotAssignment[]>(initialAssignment);
+
+  const errors: string[] = [];
+  if (assignment.every(slot => slot === null)) {
+    errors.push('Assign at least one hierarchy to a slot');
+  }
+  slotLabels.forEach((label, index) => {
+    if (assignment.filter(slot => slot === index).length > 1) {
+      errors.push(`${label} is assigned more than once`);
+    }
+  });
+
+  const handleChange = (index: number, value: string) => {
+    const next = [...assignment];
+    next[index] = fromOptionValue(value);
+    setAssignment(next);
+  };
+
+  return (
+    <div className="hierarchy-assignment-step">
+      <div className="hierarchy-assignment-header">
+        Assign hierarchies to slots
+        <span className="hierarchy-assignment-meta">
+          The uploaded file contains {hierarchies.length} hierarchies
+        </span>
+      </div>
+
+      <div className="hierarchy-assignment-rows">
+        {hierarchies.map((hierarchy, index) => (
+          <label key={hierarchy.id} className="hierarchy-assignment-row">
+            <span className="hierarchy-assignment-name">
+              {hierarchy.name}
+              <span className="hierarchy-assignment-meta">
+                {hierarchy.lessons?.length || 0} lessons
+                {hierarchy.implementationModel && ` • ${hierarchy.implementationModel}`}
+                {` • ${hierarchy.id}`}
+              </span>
+            </span>
+            <select
+              value={toOptionValue(assignment[index])}
+              onChange={(e) => handleChange(index, e.target.value)}
+            >
+              {slotLabels.map((label, slot) => (
+                <option key={slot} value={String(slot)}>{label}</option>
+              ))}
+              <option value={NEW_SLOT}>+ New slot</option>
+              <option value={SKIP}>— Don't load —</option>
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="hierarchy-assignment-errors">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="hierarchy-assignment-actions">
+        <button
+          type="button"
+          className="hierarchy-assignment-apply"
+          onClick={() => onApply(assignment)}
+          disabled={errors.length > 0}
+        >
+          Load Hierarchies
+        </button>
+        <button type="button" className="hierarchy-assignment-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -2,146 +2,57 @@
  * LessonComparisonView Component
  * Displays side-by-side lesson comparison between anchor course and compared course
  * Shows lesson alignment, order differences, removed lessons, and added lessons
+ * Extra CSV columns (Standards, Duration, ...) of matched lessons are compared for the chosen columns
  */
 
 import React from 'react';
-import { Hierarchy, Lesson, LessonComparison } from '../types';
+import {
+  ChildComparison,
+  ComparisonResult,
+  CrosswalkEntry,
+  FieldChange,
+  Hierarchy,
+  HierarchyNode,
+  Lesson,
+  LessonComparison,
+  MatchDecision,
+} from '../types';
+import { alignLessonChildren, compareLessonFields, getLessonFieldNames, getPairKey } from '../utils/lessonAlignment';
+import { addCrosswalkPairing } from '../utils/crosswalk';
+import { getLessonPlacements } from '../utils/hierarchyTree';
+import { diffText, DiffSegment } from '../utils/textDiff';
 import './LessonComparisonView.css';
 
+type LessonPlacements = ReturnType<typeof getLessonPlacements>;
+
 interface LessonComparisonViewProps {
   anchorHierarchy: Hierarchy | null;
   comparedHierarchy: Hierarchy | null;
+  comparisonResult: ComparisonResult | null; // Engine result holding the shared lesson alignment
   hierarchies: Hierarchy[];
+  crosswalk: CrosswalkEntry[];
+  onCrosswalkChange: (crosswalk: CrosswalkEntry[]) => void;
+  fuzzyThreshold: number;
+  onFuzzyThresholdChange: (threshold: number) => void;
+  comparedFields: string[] | null; // null compares every shared column
+  onComparedFieldsChange: (fields: string[] | null) => void;
+  matchDecisions: Record<string, MatchDecision>;
+  onMatchDecisionsChange: (decisions: Record<string, MatchDecision>) => void;
 }
 
-// Extract base lesson ID for matching (removes course prefix)
-const getBaseLessonId = (lessonId: string): string => {
-  // Extract the base ID after the first hyphen (e.g., "ic-lesson-1" -> "lesson-1")
-  const parts = lessonId.split('-');
-  if (parts.length >= 3 && parts[1] === 'lesson') {
-    // For pattern like "ic-lesson-1", return "lesson-1"
-    return parts.slice(1).join('-');
-  }
-  // For new lessons (e.g., "cr-new-1"), return a unique identifier
-  if (lessonId.includes('-new-')) {
-    return `new-${lessonId}`; // Make it unique so it doesn't match
-  }
-  return lessonId;
-};
-
-// Match lessons by exact ID, base ID, or title similarity
-const findMatchingLesson = (
-  anchorLesson: Lesson,
-  comparedLessons: Lesson[]
-): Lesson | null => {
-  // First try exact ID match (for pasted data and CSV data with exact IDs)
-  const exactMatch = comparedLessons.find(lesson => lesson.id === anchorLesson.id);
-  if (exactMatch) return exactMatch;
-  
-  // Then try base ID match (for CSV data with prefixed IDs)
-  const baseId = getBaseLessonId(anchorLesson.id);
-  const matchById = comparedLessons.find(lesson => {
-    const comparedBaseId = getBaseLessonId(lesson.id);
-    return comparedBaseId === baseId;
-  });
-  
-  if (matchById) return matchById;
-  
-  // Fallback: match by title (for lessons with same content but different IDs)
-  const matchByTitle = comparedLessons.find(lesson => 
-    lesson.title === anchorLesson.title
-  );
-  
-  return matchByTitle || null;
-};
-
-// Generate comparison data aligned by anchor course
-const generateLessonComparisons = (
-  anchorLessons: Lesson[],
-  comparedLessons: Lesson[]
-): LessonComparison[] => {
-  const comparisons: LessonComparison[] = [];
-  const matchedComparedIds = new Set<string>();
-  
-  // Process each anchor lesson
-  anchorLessons.forEach(anchorLesson => {
-    const matchedLesson = findMatchingLesson(anchorLesson, comparedLessons);
-    
-    if (matchedLesson) {
-      matchedComparedIds.add(matchedLesson.id);
-      comparisons.push({
-        anchorLesson,
-        comparedLesson: matchedLesson,
-        status: anchorLesson.order === matchedLesson.order ? 'same' : 'order-changed',
-        anchorOrder: anchorLesson.order,
-        comparedOrder: matchedLesson.order,
-      });
-    } else {
-      // Lesson removed from compared course
-      comparisons.push({
-        anchorLesson,
-        comparedLesson: null,
-        status: 'removed',
-        anchorOrder: anchorLesson.order,
-        comparedOrder: null,
-      });
-    }
-  });
-  
-  // Find lessons added in compared course (not in anchor)
-  const addedLessons: LessonComparison[] = [];
-  comparedLessons.forEach(comparedLesson => {
-    if (!matchedComparedIds.has(comparedLesson.id)) {
-      addedLessons.push({
-        anchorLesson: null,
-        comparedLesson,
-        status: 'added',
-        anchorOrder: 0,
-        comparedOrder: comparedLesson.order,
-      });
-    }
-  });
-  
-  // Sort comparisons by anchor order (matched lessons)
-  comparisons.sort((a, b) => {
-    if (a.anchorOrder !== b.anchorOrder) {
-      return a.anchorOrder - b.anchorOrder;
-    }
-    return (a.comparedOrder || 0) - (b.comparedOrder || 0);
-  });
-  
-  // Insert added lessons at their correct position based on compared order
-  // Sort added lessons by their compared order
-  addedLessons.sort((a, b) => (a.comparedOrder || 0) - (b.comparedOrder || 0));
-  
-  // For each added lesson, find where it should be inserted based on compared order
-  addedLessons.forEach(addedLesson => {
-    const addedOrder = addedLesson.comparedOrder || 0;
-    
-    // Find the first comparison where the compared order is greater than the added lesson's order
-    // This ensures added lessons appear in the same order as in the compared course
-    const insertIndex = comparisons.findIndex(comp => {
-      // Only consider comparisons that have a comparedOrder (matched or other added lessons)
-      if (comp.comparedOrder === null) return false;
-      return comp.comparedOrder > addedOrder;
-    });
-    
-    if (insertIndex === -1) {
-      // Add at the end if no insertion point found (added lesson is after all existing lessons)
-      comparisons.push(addedLesson);
-    } else {
-      // Insert at the correct position (before the first lesson with higher compared order)
-      comparisons.splice(insertIndex, 0, addedLesson);
-    }
-  });
-  
-  return comparisons;
-};
-
 export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
   anchorHierarchy,
   comparedHierarchy,
+  comparisonResult,
   hierarchies: _hierarchies,
+  crosswalk,
+  onCrosswalkChange,
+  fuzzyThreshold,
+  onFuzzyThresholdChange,
+  comparedFields,
+  onComparedFieldsChange,
+  matchDecisions,
+  onMatchDecisionsChange,
 }) => {
   if (!anchorHierarchy || !comparedHierarchy) {
     return (
@@ -153,9 +64,37 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
 
   const anchorLessons = anchorHierarchy.lessons || [];
   const comparedLessons = comparedHierarchy.lessons || [];
-  const comparisons = generateLessonComparisons(anchorLessons, comparedLessons);
+  // Same alignment the engine used for differences, so every tab reports the same matches
+  const comparisons = comparisonResult?.lessonAlignment || [];
+  const acceptedPairings = comparisons.filter(comp => comp.matchState === 'accepted');
+  const anchorModel = anchorHierarchy.implementationModel;
+  const comparedModel = comparedHierarchy.implementationModel;
+  const canSaveToCrosswalk = !!anchorModel && !!comparedModel && anchorModel !== comparedModel;
+  // Extra columns both courses have, and the ones chosen for comparison
+  const comparedFieldNames = new Set(getLessonFieldNames(comparedLessons));
+  const availableFields = getLessonFieldNames(anchorLessons).filter(field => comparedFieldNames.has(field));
+  const selectedFields = comparedFields ? availableFields.filter(field => comparedFields.includes(field)) : availableFields;
 
-  const getStatusClass = (status: LessonComparison['status']) => {
+  const toggleField = (field: string) => {
+    const next = selectedFields.includes(field)
+      ? selectedFields.filter(selected => selected !== field)
+      : availableFields.filter(available => available === field || selectedFields.includes(available));
+    onComparedFieldsChange(next.length === availableFields.length ? null : next);
+  };
+
+  const decideMatch = (comparison: LessonComparison, decision: MatchDecision | null) => {
+    if (!comparison.anchorLesson || !comparison.comparedLesson) return;
+    const key = getPairKey(comparison.anchorLesson, comparison.comparedLesson);
+    const next = { ...matchDecisions };
+    if (decision) {
+      next[key] = decision;
+    } else {
+      delete next[key];
+    }
+    onMatchDecisionsChange(next);
+  };
+
+  const getStatusClass = (status: LessonComparison['status'] | ChildComparison['status']) => {
     switch (status) {
       case 'same':
         return 'status-same';
@@ -165,12 +104,16 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
         return 'status-removed';
       case 'added':
         return 'status-added';
+      case 'suggested':
+        return 'status-suggested';
+      case 'changed':
+        return 'status-changed';
       default:
         return '';
     }
   };
 
-  const getStatusLabel = (status: LessonComparison['status']) => {
+  const getStatusLabel = (status: LessonComparison['status'] | ChildComparison['status']) => {
     switch (status) {
       case 'same':
         return '✓ Same';
@@ -180,51 +123,75 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
         return '− Removed';
       case 'added':
         return '+ Added';
+      case 'suggested':
+        return '≈ Suggested Match';
+      case 'changed':
+        return '~ Changed';
       default:
         return '';
     }
   };
 
-  // Get children (Activities/Quizzes) from lesson metadata
-  const getLessonChildren = (lesson: Lesson | null): Array<{ id: string; title: string; type: string }> => {
-    if (!lesson || !lesson.metadata?.children) return [];
-    return (lesson.metadata.children as Array<{ id: string; title: string; type: string }>) || [];
+  const formatScore = (score: number) => `${Math.round(score * 100)}%`;
+
+  // Store accepted pairings in the crosswalk so every comparison treats them as the same lesson
+  const handleSaveToCrosswalk = () => {
+    if (!anchorModel || !comparedModel) return;
+    const updated = acceptedPairings.reduce(
+      (entries, comp) => addCrosswalkPairing(entries, anchorModel, comp.anchorLesson!.id, comparedModel, comp.comparedLesson!.id),
+      crosswalk
+    );
+    onCrosswalkChange(updated);
   };
 
-  // Get Unit and Split from lesson metadata
-  const getLessonUnit = (lesson: Lesson | null): string | null => {
-    if (!lesson || !lesson.metadata) return null;
-    return lesson.metadata.unitTitle || lesson.metadata.parentUnit || null;
+  // Split and Unit nodes of each lesson, from the hierarchy trees
+  const anchorPlacements = getLessonPlacements(anchorHierarchy);
+  const comparedPlacements = getLessonPlacements(comparedHierarchy);
+
+  const getLessonUnit = (lesson: Lesson | null, placements: LessonPlacements): HierarchyNode | null =>
+    (lesson && placements.get(lesson)?.unit) || null;
+
+  const getLessonSplit = (lesson: Lesson | null, placements: LessonPlacements): HierarchyNode | null =>
+    (lesson && placements.get(lesson)?.split) || null;
+
+  // Character-level title diff for paired lessons whose titles differ
+  const getTitleDiff = (comparison: LessonComparison): DiffSegment[] | null => {
+    const { anchorLesson, comparedLesson } = comparison;
+    if (!anchorLesson || !comparedLesson || anchorLesson.title === comparedLesson.title) return null;
+    return diffText(anchorLesson.title, comparedLesson.title);
   };
 
-  const getLessonSplit = (lesson: Lesson | null): string | null => {
-    if (!lesson || !lesson.metadata) return null;
-    return lesson.metadata.splitTitle || lesson.metadata.parentSplit || null;
+  // Column changes of matched lessons only; a suggested pair is not a match until it is accepted
+  const getFieldChanges = (comparison: LessonComparison): FieldChange[] => {
+    const { anchorLesson, comparedLesson } = comparison;
+    if (comparison.status === 'suggested' || !anchorLesson || !comparedLesson || selectedFields.length === 0) return [];
+    return compareLessonFields(anchorLesson, comparedLesson, selectedFields);
   };
 
-  // Compare children between two lessons
-  const compareChildren = (
-    anchorChildren: Array<{ id: string; title: string; type: string }>,
-    comparedChildren: Array<{ id: string; title: string; type: string }>
-  ) => {
-    const anchorMap = new Map(anchorChildren.map(c => [c.id, c]));
-    const comparedMap = new Map(comparedChildren.map(c => [c.id, c]));
-    
-    const allChildIds = new Set([...anchorChildren.map(c => c.id), ...comparedChildren.map(c => c.id)]);
-    
-    return Array.from(allChildIds).map(id => {
-      const anchorChild = anchorMap.get(id);
-      const comparedChild = comparedMap.get(id);
-      
-      if (anchorChild && comparedChild) {
-        return { anchorChild, comparedChild, status: 'same' as const };
-      } else if (anchorChild) {
-        return { anchorChild, comparedChild: null, status: 'removed' as const };
-      } else {
-        return { anchorChild: null, comparedChild, status: 'added' as const };
+  // Anchor side shows removed characters, compared side shows added characters
+  const renderTitleDiff = (segments: DiffSegment[], side: 'anchor' | 'compared') =>
+    segments
+      .filter(segment => segment.type === 'equal' || segment.type === (side === 'anchor' ? 'removed' : 'added'))
+      .map((segment, segmentIndex) => (
+        <span key={segmentIndex} className={segment.type === 'equal' ? undefined : `title-diff-${segment.type}`}>
+          {segment.text}
+        </span>
+      ));
+
+  // Describe what changed on a matched child (order, type, title)
+  const getChildChangeLabels = (childComp: ChildComparison): string[] =>
+    childComp.changes.map(change => {
+      switch (change) {
+        case 'order':
+          return `↔ Moved #${childComp.anchorPosition} → #${childComp.comparedPosition}`;
+        case 'type':
+          return `Type: ${childComp.anchorChild!.type} → ${childComp.comparedChild!.type}`;
+        case 'title':
+          return '✎ Title Changed';
+        default:
+          return '';
       }
     });
-  };
 
   return (
     <div className="lesson-comparison-view">
@@ -239,6 +206,53 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
         </div>
       </div>
 
+      <div className="fuzzy-match-controls">
+        <label className="fuzzy-threshold-label">
+          Title match threshold:
+          <input
+            type="range"
+            min={50}
+            max={100}
+            step={5}
+            value={Math.round(fuzzyThreshold * 100)}
+            onChange={(e) => onFuzzyThresholdChange(Number(e.target.value) / 100)}
+          />
+          <span className="fuzzy-threshold-value">{formatScore(fuzzyThreshold)}</span>
+        </label>
+        <span className="fuzzy-threshold-hint">
+          Lessons without a matching ID are paired by title similarity; accept or reject each suggestion
+        </span>
+        {acceptedPairings.length > 0 && (
+          <button
+            type="button"
+            className="match-decision-button"
+            onClick={handleSaveToCrosswalk}
+            disabled={!canSaveToCrosswalk}
+            title={canSaveToCrosswalk
+              ? 'Save accepted pairings to the crosswalk'
+              : 'Both courses need different implementation models (IC, CR, Honors) to save pairings'}
+          >
+            Save {acceptedPairings.length} accepted {acceptedPairings.length === 1 ? 'pairing' : 'pairings'} to crosswalk
+          </button>
+        )}
+      </div>
+
+      {availableFields.length > 0 && (
+        <div className="field-compare-controls">
+          <span className="field-compare-label">Compare columns:</span>
+          {availableFields.map(field => (
+            <label key={field} className="field-compare-option">
+              <input
+                type="checkbox"
+                checked={selectedFields.includes(field)}
+                onChange={() => toggleField(field)}
+              />
+              {field}
+            </label>
+          ))}
+        </div>
+      )}
+
       <div className="lesson-comparison-table">
         <div className="lesson-table-header">
           <div className="lesson-col anchor-col">Anchor Course Lessons</div>
@@ -247,58 +261,26 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
 
         <div className="lesson-table-body">
           {comparisons.map((comparison, index) => {
-            const anchorChildren = getLessonChildren(comparison.anchorLesson);
-            const comparedChildren = getLessonChildren(comparison.comparedLesson);
-            const hasChildren = anchorChildren.length > 0 || comparedChildren.length > 0;
-            
             // Get Unit and Split information
-            const anchorUnit = getLessonUnit(comparison.anchorLesson);
-            const anchorSplit = getLessonSplit(comparison.anchorLesson);
-            const comparedUnit = getLessonUnit(comparison.comparedLesson);
-            const comparedSplit = getLessonSplit(comparison.comparedLesson);
+            const anchorUnit = getLessonUnit(comparison.anchorLesson, anchorPlacements);
+            const anchorSplit = getLessonSplit(comparison.anchorLesson, anchorPlacements);
+            const comparedUnit = getLessonUnit(comparison.comparedLesson, comparedPlacements);
+            const comparedSplit = getLessonSplit(comparison.comparedLesson, comparedPlacements);
             
             // Check if we need to show a Unit/Split header (when it changes from previous lesson or is first lesson)
             const prevComparison = index > 0 ? comparisons[index - 1] : null;
-            const prevAnchorUnit = prevComparison ? getLessonUnit(prevComparison.anchorLesson) : null;
-            const prevAnchorSplit = prevComparison ? getLessonSplit(prevComparison.anchorLesson) : null;
+            const prevAnchorUnit = prevComparison ? getLessonUnit(prevComparison.anchorLesson, anchorPlacements) : null;
+            const prevAnchorSplit = prevComparison ? getLessonSplit(prevComparison.anchorLesson, anchorPlacements) : null;
             const showUnitHeader = (anchorUnit || anchorSplit) && (
               index === 0 || 
               anchorUnit !== prevAnchorUnit || 
               anchorSplit !== prevAnchorSplit
             );
             
-            // For removed lessons, show only anchor children
-            // For added lessons, show only compared children
-            // For matched lessons, compare both
-            let childrenToDisplay: Array<{
-              anchorChild: { id: string; title: string; type: string } | null;
-              comparedChild: { id: string; title: string; type: string } | null;
-              status: 'same' | 'removed' | 'added';
-            }> = [];
-            
-            if (comparison.status === 'removed' && anchorChildren.length > 0) {
-              // Removed lesson - show all anchor children as removed
-              childrenToDisplay = anchorChildren.map(child => ({
-                anchorChild: child,
-                comparedChild: null,
-                status: 'removed' as const,
-              }));
-            } else if (comparison.status === 'added' && comparedChildren.length > 0) {
-              // Added lesson - show all compared children as added
-              childrenToDisplay = comparedChildren.map(child => ({
-                anchorChild: null,
-                comparedChild: child,
-                status: 'added' as const,
-              }));
-            } else if (comparison.anchorLesson && comparison.comparedLesson) {
-              // Matched lesson - compare children
-              const compared = compareChildren(anchorChildren, comparedChildren);
-              childrenToDisplay = compared.map(comp => ({
-                anchorChild: comp.anchorChild || null,
-                comparedChild: comp.comparedChild || null,
-                status: comp.status,
-              }));
-            }
+            // Removed/added lessons show all their children as removed/added; matched lessons are aligned by child ID
+            const childrenToDisplay = alignLessonChildren(comparison.anchorLesson, comparison.comparedLesson);
+            const titleDiff = getTitleDiff(comparison);
+            const fieldChanges = getFieldChanges(comparison);
             
             return (
               <div key={`comparison-${index}`}>
@@ -307,18 +289,18 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
                   <div className="unit-split-header">
                     <div className="unit-split-col anchor-col">
                       {anchorSplit && (
-                        <div className="split-badge">{anchorSplit}</div>
+                        <div className="split-badge">{anchorSplit.title}</div>
                       )}
                       {anchorUnit && (
-                        <div className="unit-badge">Unit: {anchorUnit}</div>
+                        <div className="unit-badge">Unit: {anchorUnit.title}</div>
                       )}
                     </div>
                     <div className="unit-split-col compared-col">
                       {comparedSplit && (
-                        <div className="split-badge">{comparedSplit}</div>
+                        <div className="split-badge">{comparedSplit.title}</div>
                       )}
                       {comparedUnit && (
-                        <div className="unit-badge">Unit: {comparedUnit}</div>
+                        <div className="unit-badge">Unit: {comparedUnit.title}</div>
                       )}
                     </div>
                     <div className="unit-split-spacer"></div>
@@ -335,11 +317,13 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
                     {/* Show Unit/Split inline if not shown in header */}
                     {!showUnitHeader && (anchorUnit || anchorSplit) && (
                       <div className="lesson-context">
-                        {anchorSplit && <span className="context-split">{anchorSplit}</span>}
-                        {anchorUnit && <span className="context-unit">Unit: {anchorUnit}</span>}
+                        {anchorSplit && <span className="context-split">{anchorSplit.title}</span>}
+                        {anchorUnit && <span className="context-unit">Unit: {anchorUnit.title}</span>}
                       </div>
                     )}
-                    <div className="lesson-title">{comparison.anchorLesson.title}</div>
+                    <div className="lesson-title">
+                      {titleDiff ? renderTitleDiff(titleDiff, 'anchor') : comparison.anchorLesson.title}
+                    </div>
                     {comparison.anchorLesson.variant && (
                       <div className="lesson-variant">{comparison.anchorLesson.variant}</div>
                     )}
@@ -355,14 +339,37 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
                         {/* Show Unit/Split inline if not shown in header */}
                         {!showUnitHeader && (comparedUnit || comparedSplit) && (
                           <div className="lesson-context">
-                            {comparedSplit && <span className="context-split">{comparedSplit}</span>}
-                            {comparedUnit && <span className="context-unit">Unit: {comparedUnit}</span>}
+                            {comparedSplit && <span className="context-split">{comparedSplit.title}</span>}
+                            {comparedUnit && <span className="context-unit">Unit: {comparedUnit.title}</span>}
                           </div>
                         )}
-                        <div className="lesson-title">{comparison.comparedLesson.title}</div>
+                        <div className="lesson-title">
+                          {titleDiff ? renderTitleDiff(titleDiff, 'compared') : comparison.comparedLesson.title}
+                        </div>
+                        {titleDiff && comparison.status !== 'suggested' && (
+                          <div className="lesson-title-changed">✎ Title changed</div>
+                        )}
                         {comparison.comparedLesson.variant && (
                           <div className="lesson-variant">{comparison.comparedLesson.variant}</div>
                         )}
+                        {fieldChanges.length > 0 && (
+                          <div className="lesson-field-changes">
+                            {fieldChanges.map(change => (
+                              <div key={change.field} className="lesson-field-change">
+                                <span className="lesson-field-name">{change.field}:</span>{' '}
+                                <span className="lesson-field-anchor">{change.anchorValue || '(empty)'}</span>
+                                {' → '}
+                                <span className="lesson-field-compared">{change.comparedValue || '(empty)'}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {comparison.matchScore !== undefined && (
+                          <div className={`lesson-match-score ${comparison.matchState === 'accepted' ? 'accepted' : ''}`}>
+                            ≈ {formatScore(comparison.matchScore)} title match
+                            {comparison.matchState === 'accepted' && ' (accepted)'}
+                          </div>
+                        )}
                       </div>
                     ) : (
                       <div className="lesson-item empty">—</div>
@@ -370,11 +377,43 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
                   </div>
                   <div className={`lesson-status-badge ${getStatusClass(comparison.status)}`}>
                     {getStatusLabel(comparison.status)}
+                    {comparison.matchState === 'suggested' && (
+                      <div className="match-decision-actions">
+                        <button
+                          type="button"
+                          className="match-decision-button accept"
+                          onClick={() => decideMatch(comparison, 'accepted')}
+                          title="Treat these lessons as the same lesson"
+                        >
+                          ✓ Accept
+                        </button>
+                        <button
+                          type="button"
+                          className="match-decision-button reject"
+                          onClick={() => decideMatch(comparison, 'rejected')}
+                          title="Show these lessons as removed and added"
+                        >
+                          ✕ Reject
+                        </button>
+                      </div>
+                    )}
+                    {comparison.matchState === 'accepted' && (
+                      <div className="match-decision-actions">
+                        <button
+                          type="button"
+                          className="match-decision-button"
+                          onClick={() => decideMatch(comparison, null)}
+                          title="Undo accepted pairing"
+                        >
+                          Undo
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
                 
                 {/* Display children (Activities/Quizzes) if they exist */}
-                {hasChildren && childrenToDisplay.length > 0 && (
+                {childrenToDisplay.length > 0 && (
                   <div className="lesson-children-container">
                     {childrenToDisplay.map((childComp, childIndex) => (
                       <div
@@ -394,15 +433,23 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
                         <div className={`lesson-col compared-col ${childComp.status === 'removed' ? 'empty-cell' : ''}`}>
                           {childComp.comparedChild ? (
                             <div className="child-item">
-                              <span className="child-type">{childComp.comparedChild.type}:</span>
-                              <span className="child-title">{childComp.comparedChild.title}</span>
+                              <span className={`child-type ${childComp.changes.includes('type') ? 'child-changed' : ''}`}>
+                                {childComp.comparedChild.type}:
+                              </span>
+                              <span className={`child-title ${childComp.changes.includes('title') ? 'child-changed' : ''}`}>
+                                {childComp.comparedChild.title}
+                              </span>
                             </div>
                           ) : (
                             <div className="child-item empty">—</div>
                           )}
                         </div>
                         <div className={`child-status-badge ${getStatusClass(childComp.status)}`}>
-                          {getStatusLabel(childComp.status)}
+                          {childComp.status === 'changed'
+                            ? getChildChangeLabels(childComp).map(label => (
+                                <span key={label} className="child-change-label">{label}</span>
+                              ))
+                            : getStatusLabel(childComp.status)}
                         </div>
                       </div>
                     ))}
@@ -435,6 +482,26 @@ export const LessonComparisonView: React.FC<LessonComparisonViewProps> = ({
             {comparisons.filter(c => c.status === 'order-changed').length}
           </span>
         </div>
+        <div className="summary-item">
+          <span className="summary-label">Title Changed:</span>
+          <span className="summary-value status-order-changed">
+            {comparisons.filter(c => c.status !== 'suggested' && getTitleDiff(c)).length}
+          </span>
+        </div>
+        {availableFields.length > 0 && (
+          <div className="summary-item">
+            <span className="summary-label">Column Changes:</span>
+            <span className="summary-value status-order-changed">
+              {comparisons.filter(c => getFieldChanges(c).length > 0).length}
+            </span>
+          </div>
+        )}
+        <div className="summary-item">
+          <span className="summary-label">Suggested Matches:</span>
+          <span className="summary-value status-suggested">
+            {comparisons.filter(c => c.status === 'suggested').length}
+          </span>
+        </div>
         <div className="summary-item">
           <span className="summary-label">Removed from Compared:</span>
           <span className="summary-value status-removed">
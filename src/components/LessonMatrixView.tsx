@@ -0,0 +1,88 @@
+/**
+ * LessonMatrixView Component
+ * Shows every lesson's presence and position across all loaded hierarchies at once
+ * Rows follow the anchor course; lessons missing from the anchor appear where they first occur
+ */
+
+import React from 'react';
+import { ComparisonResult, Hierarchy } from '../types';
+import { buildLessonMatrix, LessonMatrixCell } from '../utils/lessonMatrix';
+import './LessonMatrixView.css';
+
+interface LessonMatrixViewProps {
+  anchorHierarchy: Hierarchy;
+  comparedHierarchies: Hierarchy[];
+  comparisonResults: ComparisonResult[];
+}
+
+export const LessonMatrixView: React.FC<LessonMatrixViewProps> = ({
+  anchorHierarchy,
+  comparedHierarchies,
+  comparisonResults,
+}) => {
+  const matrix = buildLessonMatrix(anchorHierarchy, comparedHierarchies, comparisonResults);
+
+  if (matrix.rows.length === 0) {
+    return (
+      <div className="lesson-matrix-empty">
+        <p>No lessons found in the loaded courses.</p>
+      </div>
+    );
+  }
+
+  const getCellClass = (cell: LessonMatrixCell | null) => {
+    if (!cell) return 'matrix-cell-missing';
+    return `matrix-cell-${cell.status}`;
+  };
+
+  const getCellTitle = (cell: LessonMatrixCell | null, hierarchy: Hierarchy) => {
+    if (!cell) return `Not in ${hierarchy.name}`;
+    if (cell.status === 'order-changed') return `Moved: position ${cell.order} in ${hierarchy.name}`;
+    if (cell.status === 'suggested') return `${cell.lesson.title}: suggested title match, not accepted (position ${cell.order})`;
+    return `${cell.lesson.title} (position ${cell.order})`;
+  };
+
+  return (
+    <div className="lesson-matrix-view">
+      <div className="lesson-matrix-legend">
+        <span className="matrix-legend-item matrix-cell-same">#n Same position</span>
+        <span className="matrix-legend-item matrix-cell-order-changed">#n Moved</span>
+        <span className="matrix-legend-item matrix-cell-suggested">#n Suggested match (not accepted)</span>
+        <span className="matrix-legend-item matrix-cell-added">#n Not in anchor</span>
+        <span className="matrix-legend-item matrix-cell-missing">— Missing</span>
+      </div>
+
+      <div className="lesson-matrix-scroll">
+        <table className="lesson-matrix-table">
+          <thead>
+            <tr>
+              <th className="matrix-lesson-col">Lesson</th>
+              {matrix.columns.map((hierarchy, index) => (
+                <th key={hierarchy.id} className={index === 0 ? 'matrix-anchor-col' : ''}>
+                  {hierarchy.name}
+                  {index === 0 && <span className="matrix-anchor-label">Anchor</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.rows.map(row => (
+              <tr key={row.key}>
+                <td className="matrix-lesson-col">{row.title}</td>
+                {row.cells.map((cell, index) => (
+                  <td
+                    key={matrix.columns[index].id}
+                    className={`matrix-cell ${getCellClass(cell)}`}
+                    title={getCellTitle(cell, matrix.columns[index])}
+                  >
+                    {cell ? `#${cell.order}` : '—'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+/**
+ * NodeTypesPanel Component
+ * Edits the node-type vocabulary the text parser uses to build the hierarchy tree
+ * Each type lists the types it can be placed under, and whether it is compared as a lesson or is a leaf
+ */
+
+import { useState } from 'react';
+import { NodeTypeDefinition } from '../types';
+import { validateNodeTypes } from '../utils/nodeTypes';
+import './NodeTypesPanel.css';
+
+interface NodeTypesPanelProps {
+  nodeTypes: NodeTypeDefinition[];
+  onNodeTypesChange: (nodeTypes: NodeTypeDefinition[] | null) => void;
+}
+
+interface DraftNodeType {
+  type: string;
+  parentTypes: string; // comma-separated while editing
+  isLesson: boolean;
+  isLeaf: boolean;
+}
+
+const toDraft = (definition: NodeTypeDefinition): DraftNodeType => ({
+  ...definition,
+  parentTypes: definition.parentTypes.join(', '),
+});
+
+const fromDraft = (draft: DraftNodeType): NodeTypeDefinition => ({
+  type: draft.type.trim(),
+  parentTypes: draft.parentTypes.split(',').map(parent => parent.trim()).filter(Boolean),
+  isLesson: draft.isLesson,
+  isLeaf: draft.isLeaf,
+});
+
+export const NodeTypesPanel: React.FC<NodeTypesPanelProps> = ({
+  nodeTypes,
+  onNodeTypesChange,
+}) => {
+  const [drafts, setDrafts] = useState<DraftNodeType[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const lessonCount = nodeTypes.filter(definition => definition.isLesson).length;
+
+  const handleEdit = () => {
+    setDrafts(nodeTypes.map(toDraft));
+    setErrors([]);
+  };
+
+  const handleCancel = () => {
+    setDrafts(null);
+    setErrors([]);
+  };
+
+  const updateDraft = (index: number, changes: Partial<DraftNodeType>) => {
+    setDrafts(prev => prev && prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleAdd = () => {
+    setDrafts(prev => prev && [...prev, { type: '', parentTypes: '', isLesson: false, isLeaf: true }]);
+  };
+
+  const handleRemove = (index: number) => {
+    setDrafts(prev => prev && prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (!drafts) return;
+    const updated = drafts.map(fromDraft);
+    const validationErrors = validateNodeTypes(updated);
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors);
+      return;
+    }
+    onNodeTypesChange(updated);
+    handleCancel();
+  };
+
+  const handleReset = () => {
+    onNodeTypesChange(null);
+    handleCancel();
+  };
+
+  return (
+    <div className="node-types-panel">
+      <div className="node-types-info">
+        <span className="node-types-label">Node Types:</span>
+        <span className="node-types-count">
+          {nodeTypes.length} types, {lessonCount} compared as lessons
+        </span>
+        {!drafts && (
+          <button type="button" className="node-types-button" onClick={handleEdit}>
+            Edit
+          </button>
+        )}
+      </div>
+
+      {drafts && (
+        <>
+          <div className="node-types-table">
+            <div className="node-types-row node-types-heading">
+              <span>Type</span>
+              <span>Parent Types</span>
+              <span>Lesson</span>
+              <span>Leaf</span>
+              <span />
+            </div>
+            {drafts.map((draft, index) => (
+              <div key={index} className="node-types-row">
+                <input
+                  type="text"
+                  value={draft.type}
+                  onChange={(e) => updateDraft(index, { type: e.target.value })}
+                  placeholder="Type name"
+                />
+                <input
+                  type="text"
+                  value={draft.parentTypes}
+                  onChange={(e) => updateDraft(index, { parentTypes: e.target.value })}
+                  placeholder="None (top level)"
+                />
+                <input
+                  type="checkbox"
+                  checked={draft.isLesson}
+                  onChange={(e) => updateDraft(index, { isLesson: e.target.checked })}
+                  title="Compared as a top-level lesson"
+                />
+                <input
+                  type="checkbox"
+                  checked={draft.isLeaf}
+                  onChange={(e) => updateDraft(index, { isLeaf: e.target.checked })}
+                  title="Cannot have children"
+                />
+                <button
+                  type="button"
+                  className="node-types-remove"
+                  onClick={() => handleRemove(index)}
+                  title="Remove type"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="node-types-errors">
+              {errors.map((error, idx) => <li key={idx}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="node-types-actions">
+            <button type="button" className="node-types-button" onClick={handleAdd}>
+              + Add Type
+            </button>
+            <button type="button" className="node-types-button primary" onClick={handleSave}>
+              Save
+            </button>
+            <button type="button" className="node-types-button" onClick={handleReset}>
+              Reset to Defaults
+            </button>
+            <button type="button" className="node-types-button" onClick={handleCancel}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+
+      <div className="node-types-hint">
+        Parent types are tried in order; types not listed here become leaves. Applies to the next paste
+      </div>
+    </div>
+  );
+};
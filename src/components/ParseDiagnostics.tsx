@@ -0,0 +1,60 @@
+/**
+ * ParseDiagnostics Component
+ * Lists the problems found while parsing pasted text or an uploaded file, one per row,
+ * so the input can be fixed before comparing; the parsed course can still be used as is
+ */
+
+import { ParseDiagnostic } from '../types';
+import './ParseDiagnostics.css';
+
+interface ParseDiagnosticsProps {
+  diagnostics: ParseDiagnostic[];
+  lineLabel: string; // "Line" for pasted text, "Row" for files and sheets
+  onAccept: () => void;
+  onCancel?: () => void;
+}
+
+export const ParseDiagnostics: React.FC<ParseDiagnosticsProps> = ({
+  diagnostics,
+  lineLabel,
+  onAccept,
+  onCancel,
+}) => {
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  const summary = [
+    errorCount > 0 && `${errorCount} error${errorCount === 1 ? '' : 's'}`,
+    warningCount > 0 && `${warningCount} warning${warningCount === 1 ? '' : 's'}`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="parse-diagnostics">
+      <div className="parse-diagnostics-header">
+        {summary}
+        <span className="parse-diagnostics-meta">Fix the input and process it again, or use the course as it was read</span>
+      </div>
+      <ul className="parse-diagnostics-list">
+        {diagnostics.map((diagnostic, idx) => (
+          <li key={idx} className={`parse-diagnostic ${diagnostic.severity}`}>
+            <span className="parse-diagnostic-line">
+              {diagnostic.line > 0 ? `${lineLabel} ${diagnostic.line}` : 'Input'}
+            </span>
+            <span className="parse-diagnostic-message">{diagnostic.message}</span>
+            {diagnostic.text && <code className="parse-diagnostic-text">{diagnostic.text}</code>}
+          </li>
+        ))}
+      </ul>
+      <div className="parse-diagnostics-actions">
+        <button type="button" className="parse-diagnostics-accept" onClick={onAccept}>
+          Use Anyway
+        </button>
+        {onCancel && (
+          <button type="button" className="parse-diagnostics-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
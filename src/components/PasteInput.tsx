@@ -2,10 +2,23 @@
  * PasteInput Component
  * Allows users to paste tab-separated text from clipboard into course areas
  * Supports pasting table-like text with Title, Type, and ID columns
+ * Prefers the HTML table the authoring tool puts on the clipboard, falling back to plain text
+ * Also imports and exports hierarchies saved as JSON (see utils/hierarchyJson.ts)
+ * Rows the parser had to guess at are listed so the text can be fixed before comparing
  */
 
 import { useState, useRef, useEffect } from 'react';
-import { Hierarchy } from '../types';
+import { Hierarchy, NodeTypeDefinition } from '../types';
+import { readFileAsText } from '../utils/csvParser';
+import { downloadFile } from '../utils/download';
+import {
+  getHierarchyFileName,
+  parseHierarchyFile,
+  serializeHierarchyFile,
+  withUniqueHierarchyId,
+} from '../utils/hierarchyJson';
+import { TextParseResult } from '../utils/textParser';
+import { ParseDiagnostics } from './ParseDiagnostics';
 import './PasteInput.css';
 
 interface PasteInputProps {
@@ -14,45 +27,97 @@ interface PasteInputProps {
   label: string;
   position: number;
   pastedHierarchy: Hierarchy | null;
+  nodeTypes: NodeTypeDefinition[];
+  otherHierarchyIds: string[]; // IDs loaded in the other slots; an imported file with one of them is re-IDed
 }
 
 export const PasteInput: React.FC<PasteInputProps> = ({
   onTextPasted,
   onTextRemoved,
   label,
-  position: _position,
+  position,
   pastedHierarchy,
+  nodeTypes,
+  otherHierarchyIds,
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [textValue, setTextValue] = useState('');
+  // Parsed text with diagnostics, held back until the text is fixed or used anyway
+  const [pendingResult, setPendingResult] = useState<TextParseResult | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const previousHierarchy = useRef(pastedHierarchy);
 
   useEffect(() => {
-    // Clear text when hierarchy is removed
-    if (!pastedHierarchy && textValue) {
+    // Clear text when hierarchy is removed (text still being fixed is kept)
+    if (previousHierarchy.current && !pastedHierarchy) {
       setTextValue('');
     }
-  }, [pastedHierarchy, textValue]);
+    previousHierarchy.current = pastedHierarchy;
+  }, [pastedHierarchy]);
+
+  const handlePaste = async (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    // Tables copied from the authoring tool also come as HTML, which keeps cell boundaries and indentation
+    const html = event.clipboardData.getData('text/html');
+    if (/<table[\s>]/i.test(html)) {
+      event.preventDefault();
+      const text = event.clipboardData.getData('text/plain');
+      setTextValue(text);
+      await processHTML(html, text);
+      return;
+    }
 
-  const handlePaste = async (_event: React.ClipboardEvent<HTMLTextAreaElement>) => {
     // Allow default paste behavior, then process
     setTimeout(() => {
       processText();
     }, 0);
   };
 
+  const deliverResult = (result: TextParseResult) => {
+    if (result.diagnostics.length > 0) {
+      setPendingResult(result);
+    } else {
+      onTextPasted(result.hierarchy);
+    }
+  };
+
+  const processHTML = async (html: string, text: string) => {
+    setIsProcessing(true);
+    setError(null);
+    setPendingResult(null);
+
+    try {
+      const { parseHTMLTable } = await import('../utils/htmlTableParser');
+      const rows = parseHTMLTable(html);
+      if (rows) {
+        const { textRowsToHierarchy } = await import('../utils/textParser');
+        deliverResult(textRowsToHierarchy(rows, label, nodeTypes));
+        return;
+      }
+    } catch (err) {
+      console.error('Error processing pasted table:', err);
+    } finally {
+      setIsProcessing(false);
+    }
+
+    // No usable table in the HTML: read the plain text instead
+    await processText(text);
+  };
+
   const handleTextChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     setTextValue(event.target.value);
     setError(null);
+    setPendingResult(null);
   };
 
   const handleProcess = async () => {
     await processText();
   };
 
-  const processText = async () => {
-    const text = textareaRef.current?.value || textValue;
+  const processText = async (pastedText?: string) => {
+    const text = pastedText ?? (textareaRef.current?.value || textValue);
     
     if (!text.trim()) {
       setError('Please paste some text');
@@ -61,12 +126,18 @@ export const PasteInput: React.FC<PasteInputProps> = ({
 
     setIsProcessing(true);
     setError(null);
+    setPendingResult(null);
 
     try {
+      // A pasted hierarchy JSON file is loaded as-is
+      if (text.trim().startsWith('{')) {
+        onTextPasted(withUniqueHierarchyId(parseHierarchyFile(text), otherHierarchyIds, label));
+        return;
+      }
+
       // Dynamically import the text parser
       const { processTextContent } = await import('../utils/textParser');
-      const hierarchy = processTextContent(text, label);
-      onTextPasted(hierarchy);
+      deliverResult(processTextContent(text, label, nodeTypes));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to process pasted text');
       console.error('Error processing text:', err);
@@ -75,15 +146,44 @@ export const PasteInput: React.FC<PasteInputProps> = ({
     }
   };
 
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      onTextPasted(withUniqueHierarchyId(parseHierarchyFile(await readFileAsText(file)), otherHierarchyIds, label));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import hierarchy');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleExport = () => {
+    if (!pastedHierarchy) return;
+    downloadFile(serializeHierarchyFile(pastedHierarchy), getHierarchyFileName(pastedHierarchy), 'application/json');
+  };
+
+  const handleUseAnyway = () => {
+    if (!pendingResult) return;
+    onTextPasted(pendingResult.hierarchy);
+    setPendingResult(null);
+  };
+
   const handleRemove = () => {
     setTextValue('');
     setError(null);
+    setPendingResult(null);
     onTextRemoved();
   };
 
   const handleClear = () => {
     setTextValue('');
     setError(null);
+    setPendingResult(null);
     if (textareaRef.current) {
       textareaRef.current.value = '';
       textareaRef.current.focus();
@@ -136,10 +236,28 @@ export const PasteInput: React.FC<PasteInputProps> = ({
                   Clear
                 </button>
               )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImport}
+                className="paste-file-input"
+                id={`paste-file-input-${position}`}
+              />
+              <label htmlFor={`paste-file-input-${position}`} className="clear-button">
+                Import JSON
+              </label>
             </div>
             {error && <div className="paste-error">{error}</div>}
+            {pendingResult && (
+              <ParseDiagnostics
+                diagnostics={pendingResult.diagnostics}
+                lineLabel="Line"
+                onAccept={handleUseAnyway}
+              />
+            )}
             <div className="paste-hint">
-              Paste tab-separated text with Title, Type, and ID columns
+              Paste tab-separated text with Title, Type, and ID columns, or import a saved hierarchy (.json)
             </div>
           </>
         ) : (
@@ -152,6 +270,9 @@ export const PasteInput: React.FC<PasteInputProps> = ({
                   {pastedHierarchy.lessons?.length || 0} lessons • {pastedHierarchy.subject || 'Unknown Subject'}
                   {pastedHierarchy.implementationModel && ` • ${pastedHierarchy.implementationModel}`}
                 </div>
+                <button type="button" className="export-json-button" onClick={handleExport}>
+                  Export JSON
+                </button>
               </div>
             </div>
             <button
@@ -0,0 +1,111 @@
+/**
+ * PresenceView Component
+ * Consensus view across all loaded hierarchies: which lessons are in all courses,
+ * which are shared by only some of them, and which exist in a single course
+ */
+
+import React from 'react';
+import { ComparisonResult, Hierarchy } from '../types';
+import { buildLessonMatrix } from '../utils/lessonMatrix';
+import { getPresenceLabels, summarizePresence } from '../utils/presence';
+import './PresenceView.css';
+
+interface PresenceViewProps {
+  anchorHierarchy: Hierarchy;
+  comparedHierarchies: Hierarchy[];
+  comparisonResults: ComparisonResult[];
+  selectedCategory: string | null; // Kept by ComparisonView so Copy as Markdown can list the same category
+  onSelectedCategoryChange: (category: string) => void;
+}
+
+export const PresenceView: React.FC<PresenceViewProps> = ({
+  anchorHierarchy,
+  comparedHierarchies,
+  comparisonResults,
+  selectedCategory,
+  onSelectedCategoryChange,
+}) => {
+  const matrix = buildLessonMatrix(anchorHierarchy, comparedHierarchies, comparisonResults);
+  const summary = summarizePresence(matrix);
+  const labels = getPresenceLabels(matrix.columns);
+
+  if (summary.categories.length === 0) {
+    return (
+      <div className="presence-empty">
+        <p>No lessons found in the loaded courses.</p>
+      </div>
+    );
+  }
+
+  // Fall back to the first category when the selected one no longer exists
+  const activeCategory = summary.categories.find(c => c.key === selectedCategory) || summary.categories[0];
+
+  return (
+    <div className="presence-view">
+      <div className="presence-categories">
+        {summary.categories.map(category => (
+          <button
+            key={category.key}
+            type="button"
+            className={`presence-category ${category.key === activeCategory.key ? 'active' : ''} ${category.hierarchyIds.length === matrix.columns.length ? 'in-all' : ''}`}
+            onClick={() => onSelectedCategoryChange(category.key)}
+          >
+            <span className="presence-category-count">{category.rows.length}</span>
+            <span className="presence-category-label">{category.label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="presence-section">
+        <h4>{activeCategory.label} ({activeCategory.rows.length})</h4>
+        <ul className="presence-lesson-list">
+          {activeCategory.rows.map(row => (
+            <li key={row.key} className="presence-lesson">
+              <span className="presence-lesson-title">{row.title}</span>
+              <span className="presence-lesson-positions">
+                {row.cells.map((cell, index) => cell && (
+                  <span key={matrix.columns[index].id} className="presence-position">
+                    {labels[index]} #{cell.order}
+                  </span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="presence-section">
+        <h4>By Unit</h4>
+        <div className="presence-unit-scroll">
+          <table className="presence-unit-table">
+            <thead>
+              <tr>
+                <th className="presence-unit-col">Unit</th>
+                {summary.categories.map(category => (
+                  <th key={category.key}>{category.label}</th>
+                ))}
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.units.map(unit => (
+                <tr key={unit.key}>
+                  <td className="presence-unit-col">
+                    {unit.split && <span className="presence-unit-split">{unit.split} · </span>}
+                    {unit.unit}
+                  </td>
+                  {summary.categories.map(category => (
+                    <td key={category.key} className={unit.counts[category.key] ? '' : 'presence-zero'}>
+                      {unit.counts[category.key] || 0}
+                    </td>
+                  ))}
+                  <td className="presence-total">{unit.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
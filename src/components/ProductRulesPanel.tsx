@@ -1,72 +1,86 @@
 /**
  * ProductRulesPanel Component
- * Displays product rule violations for each hierarchy
+ * Displays product rule violations for each loaded hierarchy, anchor first
  * Shows subject-specific rules and their compliance status
+ * Lets users import, export and reset the rule definitions
  */
 
-import React from 'react';
-import { Hierarchy, ComparisonResult } from '../types';
+import React, { useRef, useState } from 'react';
+import { Hierarchy, ProductRuleDefinition, ProductRuleViolation } from '../types';
+import { getSubjectRules, parseProductRuleSet, serializeProductRuleSet } from '../utils/productRules';
+import { readFileAsText } from '../utils/csvParser';
+import { downloadFile } from '../utils/download';
 import './ProductRulesPanel.css';
 
 interface ProductRulesPanelProps {
-  comparisonResults: ComparisonResult[];
+  productRuleViolations: Record<string, ProductRuleViolation[]>; // By hierarchy ID
   selectedHierarchies: Array<{ hierarchyId: string; versionId: string } | null>;
   hierarchies: Hierarchy[];
+  anchorHierarchyId: string | null;
+  productRules: ProductRuleDefinition[];
+  onProductRulesChange: (rules: ProductRuleDefinition[] | null) => void;
 }
 
 export const ProductRulesPanel: React.FC<ProductRulesPanelProps> = ({
-  comparisonResults,
-  selectedHierarchies: _selectedHierarchies,
+  productRuleViolations,
+  selectedHierarchies,
   hierarchies,
+  anchorHierarchyId,
+  productRules,
+  onProductRulesChange,
 }) => {
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const getSubjectRules = (subject: string) => {
-    const rules: Record<string, { name: string; description: string }> = {};
-    
-    if (subject === 'Science') {
-      rules['SCI-001'] = {
-        name: 'Virtual Labs Limit',
-        description: 'Science can only have 20 virtual labs',
-      };
-      rules['SCI-IC-HON-001'] = {
-        name: 'Project Requirement',
-        description: 'Science IC/Honors: at least 1 project per semester and ideally in the same semester',
-      };
-      rules['SCI-CR-001'] = {
-        name: 'Teacher Graded Content Removal',
-        description: 'Science CR only: all teacher graded content is removed (FR, labs, etc.)',
-      };
-    } else if (subject === 'Math') {
-      rules['MATH-IC-HON-001'] = {
-        name: 'Short Writings Requirement',
-        description: 'Math IC and Honors: 2 short writings per semester',
-      };
-      rules['MATH-CR-001'] = {
-        name: 'Teacher Graded Content Removal',
-        description: 'Math CR only: all teacher graded content must be removed',
-      };
+  const getHierarchy = (hierarchyId: string) => hierarchies.find(h => h.id === hierarchyId);
+
+  const getHierarchySubject = (hierarchyId: string) => {
+    return getHierarchy(hierarchyId)?.subject || 'Unknown';
+  };
+
+  const describeThreshold = (rule: ProductRuleDefinition) => {
+    const scope = rule.count.scope === 'split' ? 'per semester' : 'per course';
+    const parts: string[] = [];
+    if (rule.threshold.min !== undefined) parts.push(`min ${rule.threshold.min}`);
+    if (rule.threshold.max !== undefined) parts.push(`max ${rule.threshold.max}`);
+    return `${parts.join(', ')} ${scope}`;
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const content = await readFileAsText(file);
+      onProductRulesChange(parseProductRuleSet(content));
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import rules');
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
     }
-    
-    return rules;
   };
 
-  const getHierarchySubject = (hierarchyId: string) => {
-    const hierarchy = hierarchies.find(h => h.id === hierarchyId);
-    return hierarchy?.subject || 'Unknown';
+  const handleExport = () => {
+    downloadFile(serializeProductRuleSet(productRules), 'product-rules.json', 'application/json');
   };
 
-  const allViolations = comparisonResults.flatMap(result => 
-    result.productRuleViolations.map(violation => ({
-      ...violation,
-      hierarchyId: result.hierarchyId,
-      hierarchyName: result.hierarchyName,
-    }))
-  );
+  const handleReset = () => {
+    setImportError(null);
+    onProductRulesChange(null);
+  };
 
-  const violationsByHierarchy = comparisonResults.reduce((acc, result) => {
-    acc[result.hierarchyId] = result.productRuleViolations;
-    return acc;
-  }, {} as Record<string, ComparisonResult['productRuleViolations']>);
+  // Every selected hierarchy, anchor first
+  const checkedHierarchies = selectedHierarchies
+    .map(selected => (selected ? getHierarchy(selected.hierarchyId) : undefined))
+    .filter((hierarchy): hierarchy is Hierarchy => !!hierarchy)
+    .sort((a, b) => Number(b.id === anchorHierarchyId) - Number(a.id === anchorHierarchyId));
+
+  const getViolations = (hierarchyId: string) => productRuleViolations[hierarchyId] || [];
+
+  const allViolations = checkedHierarchies.flatMap(hierarchy => getViolations(hierarchy.id));
 
   return (
     <div className="product-rules-panel">
@@ -75,17 +89,38 @@ export const ProductRulesPanel: React.FC<ProductRulesPanelProps> = ({
         <p className="rules-description">
           Verify that each implementation model follows subject-specific product rules
         </p>
+        <div className="rules-actions">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="rules-file-input"
+            id="rules-file-input"
+          />
+          <label htmlFor="rules-file-input" className="rules-action-button">
+            Import Rules (JSON)
+          </label>
+          <button type="button" className="rules-action-button" onClick={handleExport}>
+            Export Rules
+          </button>
+          <button type="button" className="rules-action-button" onClick={handleReset}>
+            Reset to Defaults
+          </button>
+          <span className="rules-count">{productRules.length} rules loaded</span>
+        </div>
+        {importError && <div className="rules-import-error">{importError}</div>}
       </div>
 
-      {comparisonResults.map((result) => {
-        const subject = getHierarchySubject(result.hierarchyId);
-        const subjectRules = getSubjectRules(subject);
-        const violations = violationsByHierarchy[result.hierarchyId] || [];
+      {checkedHierarchies.map((hierarchy) => {
+        const subject = getHierarchySubject(hierarchy.id);
+        const subjectRules = getSubjectRules(productRules, subject, hierarchy.implementationModel);
+        const violations = getViolations(hierarchy.id);
 
         return (
-          <div key={result.hierarchyId} className="hierarchy-rules-section">
+          <div key={hierarchy.id} className="hierarchy-rules-section">
             <div className="hierarchy-rules-header">
-              <h4>{result.hierarchyName}</h4>
+              <h4>{hierarchy.name}{hierarchy.id === anchorHierarchyId ? ' (anchor)' : ''}</h4>
               <span className="subject-badge">{subject}</span>
               <span className={`compliance-status ${violations.length === 0 ? 'compliant' : 'non-compliant'}`}>
                 {violations.length === 0 ? '✓ Compliant' : `⚠ ${violations.length} Violation(s)`}
@@ -119,16 +154,20 @@ export const ProductRulesPanel: React.FC<ProductRulesPanelProps> = ({
             <div className="applicable-rules">
               <h5 className="applicable-rules-title">Applicable Rules for {subject}</h5>
               <div className="rules-list">
-                {Object.entries(subjectRules).map(([ruleId, rule]) => {
-                  const hasViolation = violations.some(v => v.ruleId === ruleId);
+                {subjectRules.length === 0 && (
+                  <div className="rule-description">No rules defined for this subject and model</div>
+                )}
+                {subjectRules.map((rule) => {
+                  const hasViolation = violations.some(v => v.ruleId === rule.id);
                   return (
                     <div
-                      key={ruleId}
+                      key={rule.id}
                       className={`rule-item ${hasViolation ? 'has-violation' : ''}`}
                     >
-                      <div className="rule-id">{ruleId}</div>
+                      <div className="rule-id">{rule.id}</div>
                       <div className="rule-name">{rule.name}</div>
                       <div className="rule-description">{rule.description}</div>
+                      <div className="rule-threshold">{describeThreshold(rule)}</div>
                       {hasViolation && (
                         <div className="rule-status">⚠ Violation detected</div>
                       )}
@@ -150,7 +189,7 @@ export const ProductRulesPanel: React.FC<ProductRulesPanelProps> = ({
         <div className="summary-item">
           <span className="summary-label">Compliant Hierarchies:</span>
           <span className="summary-value">
-            {comparisonResults.filter(r => r.productRuleViolations.length === 0).length} / {comparisonResults.length}
+            {checkedHierarchies.filter(hierarchy => getViolations(hierarchy.id).length === 0).length} / {checkedHierarchies.length}
           </span>
         </div>
       </div>
@@ -0,0 +1,112 @@
+/**
+ * RemediationView Component
+ * Step-by-step edits that make each compared course match the anchor, with a checkbox per step
+ * while working through them, and exports as a checklist or a corrected hierarchy CSV
+ */
+
+import React, { useState } from 'react';
+import { ComparisonResult, Hierarchy } from '../types';
+import {
+  buildRemediationPlan,
+  getRemediationFileName,
+  serializeCorrectedCSV,
+  serializeRemediationChecklist,
+} from '../utils/remediationPlan';
+import { downloadFile } from '../utils/download';
+import './RemediationView.css';
+
+interface RemediationViewProps {
+  anchorHierarchy: Hierarchy;
+  comparedHierarchies: Hierarchy[];
+  comparisonResults: ComparisonResult[];
+}
+
+export const RemediationView: React.FC<RemediationViewProps> = ({
+  anchorHierarchy,
+  comparedHierarchies,
+  comparisonResults,
+}) => {
+  // Checked steps by hierarchy, position and description, so a changed plan drops stale ticks
+  const [doneSteps, setDoneSteps] = useState<Set<string>>(new Set());
+
+  const toggleStep = (key: string) => {
+    const next = new Set(doneSteps);
+    if (next.has(key)) {
+      next.delete(key);
+    } else {
+      next.add(key);
+    }
+    setDoneSteps(next);
+  };
+
+  const sections = comparedHierarchies
+    .map(hierarchy => ({ hierarchy, result: comparisonResults.find(r => r.hierarchyId === hierarchy.id) }))
+    .filter((section): section is { hierarchy: Hierarchy; result: ComparisonResult } => !!section.result);
+
+  if (sections.length === 0) {
+    return (
+      <div className="remediation-empty">
+        <p>Please select a course to compare with the anchor course.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="remediation-view">
+      {sections.map(({ hierarchy, result }) => {
+        const steps = buildRemediationPlan(result);
+        const stepKeys = steps.map((step, index) => `${hierarchy.id}:${index}:${step.description}`);
+        const doneCount = stepKeys.filter(key => doneSteps.has(key)).length;
+
+        return (
+          <div key={hierarchy.id} className="remediation-section">
+            <div className="remediation-header">
+              <h4>{hierarchy.name} → {anchorHierarchy.name}</h4>
+              <span className="remediation-progress">
+                {steps.length === 0 ? '✓ Matches the anchor' : `${doneCount} / ${steps.length} steps done`}
+              </span>
+              <button
+                type="button"
+                className="remediation-button"
+                onClick={() => downloadFile(
+                  serializeRemediationChecklist(anchorHierarchy, hierarchy, steps),
+                  getRemediationFileName(hierarchy, 'remediation.md'),
+                  'text/markdown'
+                )}
+              >
+                Export Checklist
+              </button>
+              <button
+                type="button"
+                className="remediation-button"
+                onClick={() => downloadFile(
+                  serializeCorrectedCSV(anchorHierarchy, hierarchy, result),
+                  getRemediationFileName(hierarchy, 'corrected.csv'),
+                  'text/csv'
+                )}
+              >
+                Export Corrected CSV
+              </button>
+            </div>
+
+            {steps.length > 0 && (
+              <ol className="remediation-steps">
+                {steps.map((step, index) => {
+                  const key = stepKeys[index];
+                  return (
+                    <li key={key} className={`remediation-step action-${step.action} level-${step.level}`}>
+                      <label>
+                        <input type="checkbox" checked={doneSteps.has(key)} onChange={() => toggleStep(key)} />
+                        <span className={doneSteps.has(key) ? 'remediation-step-done' : undefined}>{step.description}</span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -29,6 +29,52 @@ export interface Hierarchy {
   versions: HierarchyVersion[];
   currentVersion?: HierarchyVersion;
   lessons?: Lesson[]; // Lessons for the current version
+  tree?: HierarchyNode[]; // Content tree of the current version (root nodes, usually Splits)
+}
+
+/**
+ * Node of a hierarchy's content tree: Split -> Unit -> Lesson/Test/Exam -> Activity/Quiz
+ */
+export interface HierarchyNode {
+  id: string;
+  title: string;
+  type: string; // Node type as named in the source (Split, Unit, EdgeEx Lesson, Test, Exam, Activity, Quiz, ...)
+  order: number; // 1-based position among its parent's children
+  children: HierarchyNode[];
+}
+
+/**
+ * Saved hierarchy file (see utils/hierarchyJson.ts for the schema versions)
+ */
+export interface HierarchyFile {
+  version: number;
+  exportedAt?: string;
+  hierarchy: Hierarchy;
+}
+
+/**
+ * How the text parser places rows of one type in the hierarchy tree
+ */
+export interface NodeTypeDefinition {
+  type: string;
+  parentTypes: string[]; // Possible parent types, in order of preference (empty for root types such as Split)
+  isLesson: boolean; // Compared as a top-level lesson; its children stay inside it
+  isLeaf: boolean; // Never has children, so rows after it are not placed under it
+}
+
+export interface NodeTypeVocabulary {
+  version: number;
+  types: NodeTypeDefinition[];
+}
+
+/**
+ * Problem found while parsing pasted text or an uploaded file
+ */
+export interface ParseDiagnostic {
+  line: number; // 1-based line of pasted text, or row of a file or table; 0 when it concerns the whole input
+  severity: 'error' | 'warning'; // error: the row was dropped or the result is unusable; warning: a value was guessed
+  message: string;
+  text: string; // The offending row as read from the input
 }
 
 export interface Lesson {
@@ -36,7 +82,12 @@ export interface Lesson {
   title: string;
   order: number;
   variant?: string;
-  metadata?: Record<string, any>;
+  type?: string; // Node type of the lesson (EdgeEx Lesson, Test, Exam)
+  splitTitle?: string; // Title of the Split (semester) containing the lesson
+  unitTitle?: string; // Title of the Unit containing the lesson (none for Exams directly under a Split)
+  children?: HierarchyNode[]; // Activities/Quizzes inside the lesson, shared with the hierarchy tree
+  metadata?: Record<string, any>; // Source-specific values (e.g. CSV identifiers)
+  fields?: Record<string, string>; // Extra CSV/Excel columns by header (e.g. Standards, Duration, Grading Type)
 }
 
 export interface ComparisonResult {
@@ -46,14 +97,19 @@ export interface ComparisonResult {
   productRuleViolations: ProductRuleViolation[];
   metadataIssues: MetadataIssue[];
   lessonOrderIssues: LessonOrderIssue[];
+  lessonAlignment: LessonComparison[]; // Shared lesson alignment used by every view and export
 }
 
 export interface Difference {
-  type: 'missing' | 'extra' | 'mismatch' | 'order';
+  type: 'missing' | 'extra' | 'mismatch' | 'order' | 'type-change' | 'title-change' | 'field-change';
   level: 'course' | 'semester' | 'unit' | 'lesson';
   path: string;
   description: string;
   severity: 'error' | 'warning' | 'info';
+  expectedValue?: string; // Anchor value for mismatches (e.g. the anchor lesson title); anchor title of a missing unit/semester
+  actualValue?: string; // Compared value for mismatches; compared title of an extra unit/semester, or of the one a missing unit/semester was merged into
+  expectedSplit?: string; // Split holding the unit in the anchor (unit-level differences)
+  actualSplit?: string; // Split holding the unit in the compared course (unit-level differences)
 }
 
 export interface ProductRuleViolation {
@@ -79,14 +135,75 @@ export interface LessonOrderIssue {
   lessonTitle: string;
   expectedOrder: number;
   actualOrder: number;
+  placesMoved: number; // Number of in-order lessons the lesson moved past
   hierarchyId: string;
 }
 
 export interface LessonComparison {
   anchorLesson: Lesson | null;
   comparedLesson: Lesson | null;
-  status: 'same' | 'removed' | 'added' | 'order-changed';
+  status: 'same' | 'removed' | 'added' | 'order-changed' | 'suggested';
   anchorOrder: number;
   comparedOrder: number | null;
+  placesMoved?: number; // Set when status is 'order-changed'
+  matchScore?: number; // Title similarity for fuzzy (title-based) matches
+  matchState?: 'suggested' | 'accepted';
+}
+
+export type MatchDecision = 'accepted' | 'rejected';
+
+export type ChildChange = 'order' | 'type' | 'title';
+
+/**
+ * Extra column whose value differs between a matched anchor and compared lesson
+ */
+export interface FieldChange {
+  field: string; // Column header
+  anchorValue: string;
+  comparedValue: string;
 }
 
+export interface ChildComparison {
+  anchorChild: HierarchyNode | null;
+  comparedChild: HierarchyNode | null;
+  status: 'same' | 'changed' | 'removed' | 'added';
+  changes: ChildChange[]; // Empty unless status is 'changed'
+  anchorPosition: number | null; // 1-based position within the lesson
+  comparedPosition: number | null;
+}
+
+/**
+ * One row of a lesson crosswalk: the IDs the same lesson has in each implementation model
+ */
+export type CrosswalkEntry = Partial<Record<ImplementationModel, string>>;
+
+
+export type ProductRuleScope = 'course' | 'split';
+
+/**
+ * Declarative product rule definition
+ * Rules are loaded from JSON (defaults ship with the extension, users can import their own)
+ */
+export interface ProductRuleDefinition {
+  id: string;
+  name: string;
+  description: string;
+  subject: string;
+  implementationModels?: ImplementationModel[]; // Omitted = applies to every model
+  count: {
+    childTypes?: string[]; // Lesson or child types to count (case-insensitive)
+    titlePattern?: string; // Regular expression matched against title or type (case-insensitive)
+    excludeTitlePattern?: string;
+    scope: ProductRuleScope; // Count per course or per split (semester)
+  };
+  threshold: {
+    min?: number;
+    max?: number;
+  };
+  severity: 'error' | 'warning';
+}
+
+export interface ProductRuleSet {
+  version: number;
+  rules: ProductRuleDefinition[];
+}
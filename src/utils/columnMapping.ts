@@ -0,0 +1,174 @@
+/**
+ * Column Mapping Utility
+ * Maps CSV header columns to CSVRow fields for exports whose headers differ from the standard report
+ * Finds the header row, suggests a mapping from known aliases, and remembers confirmed
+ * mappings per header signature so the same export format maps automatically next time
+ */
+
+import { CSVRecord } from './csvReader';
+
+const STORAGE_KEY = 'course-comparison.columnMappings';
+
+// Header rows are searched for in the first rows only (reports put a few title rows above it)
+export const HEADER_SEARCH_ROWS = 20;
+
+export type CSVField =
+  | 'hierarchyId'
+  | 'hierarchyName'
+  | 'splitTitle'
+  | 'unitTitle'
+  | 'edgeExLessonId'
+  | 'edgeExLessonTitle'
+  | 'alignmentIdentifier'
+  | 'variantIdentifier'
+  | 'subject'
+  | 'title'
+  | 'sourceOrder';
+
+/**
+ * CSVRow field -> index of the CSV column it is read from
+ */
+export type ColumnMapping = Partial<Record<CSVField, number>>;
+
+export interface CSVFieldDefinition {
+  field: CSVField;
+  header: string; // Standard report header
+  aliases: string[]; // Other names seen in exports (compared case- and punctuation-insensitively)
+  required?: boolean;
+}
+
+export const CSV_FIELDS: CSVFieldDefinition[] = [
+  { field: 'hierarchyId', header: 'Hierarchy ID', aliases: ['hierarchy', 'course hierarchy id', 'hier id'], required: true },
+  { field: 'hierarchyName', header: 'Hierarchy Name', aliases: ['course name', 'course title', 'hierarchy title'] },
+  { field: 'splitTitle', header: 'Split Title', aliases: ['split', 'semester', 'semester title', 'split name'] },
+  { field: 'unitTitle', header: 'Unit Title', aliases: ['unit', 'unit name'] },
+  { field: 'edgeExLessonId', header: 'EdgeEx Lesson ID', aliases: ['lesson id', 'edgeex id', 'edgex lesson id', 'edge ex lesson id'] },
+  { field: 'edgeExLessonTitle', header: 'EdgeEx Lesson Title', aliases: ['lesson title', 'lesson name', 'edgex lesson title', 'edge ex lesson title'] },
+  { field: 'alignmentIdentifier', header: 'Alignment Identifier', aliases: ['alignment id', 'alignment'] },
+  { field: 'variantIdentifier', header: 'Variant Identifier', aliases: ['variant id', 'variant'] },
+  { field: 'subject', header: 'Subject', aliases: ['subject area', 'discipline'] },
+  { field: 'title', header: 'Title', aliases: ['name', 'item title'] },
+  { field: 'sourceOrder', header: 'Source Order', aliases: ['order', 'sequence', 'position', 'sort order'] },
+];
+
+// Each lesson needs at least one of these to be identified
+const LESSON_ID_FIELDS: CSVField[] = ['alignmentIdentifier', 'variantIdentifier', 'edgeExLessonId'];
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const getFieldNames = (definition: CSVFieldDefinition): string[] =>
+  [definition.header, ...definition.aliases].map(normalizeHeader);
+
+/**
+ * Index of the header row: the first of the leading rows whose cells match the most known column names
+ * Returns -1 when no row matches at least two
+ */
+export function findHeaderRow(records: CSVRecord[]): number {
+  const knownNames = new Set(CSV_FIELDS.flatMap(getFieldNames));
+  let bestIndex = -1;
+  let bestScore = 1;
+
+  records.slice(0, HEADER_SEARCH_ROWS).forEach((record, index) => {
+    const score = record.values.filter(value => knownNames.has(normalizeHeader(value))).length;
+    if (score > bestScore) {
+      bestIndex = index;
+      bestScore = score;
+    }
+  });
+
+  return bestIndex;
+}
+
+/**
+ * Suggest a mapping from header names: standard headers first, then aliases
+ * `isStandard` is true when every required column was found under its standard header
+ */
+export function suggestColumnMapping(headers: string[]): { mapping: ColumnMapping; isStandard: boolean } {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  let isStandard = true;
+
+  const assign = (definition: CSVFieldDefinition, names: string[]) => {
+    const index = normalized.findIndex((header, i) => !used.has(i) && names.includes(header));
+    if (index !== -1) {
+      mapping[definition.field] = index;
+      used.add(index);
+    }
+  };
+
+  CSV_FIELDS.forEach(definition => assign(definition, [normalizeHeader(definition.header)]));
+  CSV_FIELDS.forEach(definition => {
+    if (mapping[definition.field] !== undefined) return;
+    assign(definition, definition.aliases.map(normalizeHeader));
+    if (mapping[definition.field] !== undefined) {
+      isStandard = false;
+    }
+  });
+
+  if (validateColumnMapping(mapping).length > 0) {
+    isStandard = false;
+  }
+
+  return { mapping, isStandard };
+}
+
+/**
+ * Problems that prevent a mapping from producing lessons (empty when the mapping is usable)
+ */
+export function validateColumnMapping(mapping: ColumnMapping): string[] {
+  const errors: string[] = [];
+  CSV_FIELDS.forEach(definition => {
+    if (definition.required && mapping[definition.field] === undefined) {
+      errors.push(`Choose the column for ${definition.header}`);
+    }
+  });
+  if (!LESSON_ID_FIELDS.some(field => mapping[field] !== undefined)) {
+    errors.push('Choose at least one lesson identifier column (Alignment Identifier, Variant Identifier or EdgeEx Lesson ID)');
+  }
+
+  const columns = Object.values(mapping);
+  if (new Set(columns).size !== columns.length) {
+    errors.push('Each column can only be mapped to one field');
+  }
+  return errors;
+}
+
+/**
+ * Key identifying a header layout, used to remember its mapping
+ */
+export function getHeaderSignature(headers: string[]): string {
+  return headers.map(normalizeHeader).join('|');
+}
+
+function loadAllMappings(): Record<string, ColumnMapping> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, ColumnMapping>;
+      }
+    }
+  } catch (err) {
+    console.warn('Ignoring invalid stored column mappings:', err);
+  }
+  return {};
+}
+
+/**
+ * Mapping previously confirmed for this header layout, if any
+ */
+export function loadColumnMapping(signature: string): ColumnMapping | null {
+  return loadAllMappings()[signature] || null;
+}
+
+/**
+ * Remember the mapping confirmed for this header layout
+ */
+export function saveColumnMapping(signature: string, mapping: ColumnMapping): void {
+  const mappings = loadAllMappings();
+  mappings[signature] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
@@ -4,10 +4,29 @@
  * Performs client-side comparison without backend services
  */
 
-import { Hierarchy, ComparisonResult, Lesson, Difference, MetadataIssue, LessonOrderIssue } from '../types';
+import {
+  Hierarchy,
+  ComparisonResult,
+  Lesson,
+  Difference,
+  MetadataIssue,
+  LessonOrderIssue,
+  ProductRuleDefinition,
+  ProductRuleViolation,
+  LessonComparison,
+} from '../types';
+import { evaluateProductRules, DEFAULT_PRODUCT_RULES } from './productRules';
+import { alignLessons, alignLessonChildren, compareLessonFields, getMatchedPairs, AlignmentOptions } from './lessonAlignment';
+import { getHierarchyStructure, HierarchyStructure } from './hierarchyTree';
+
+export interface ComparisonOptions extends AlignmentOptions {
+  productRules?: ProductRuleDefinition[];
+  comparedFields?: string[]; // Extra CSV columns to compare per lesson; all shared columns when omitted
+}
 
 /**
  * Compare children (Activities/Quizzes) within a lesson
+ * Reports missing and extra children plus order, type and title changes of matched children
  */
 function compareLessonChildren(
   anchorLesson: Lesson,
@@ -15,25 +34,12 @@ function compareLessonChildren(
   _comparedHierarchyId: string
 ): Difference[] {
   const differences: Difference[] = [];
-  
-  // Get children from metadata
-  const anchorChildren = (anchorLesson.metadata?.children as Array<{ id: string; title: string; type: string }>) || [];
-  const comparedChildren = (comparedLesson.metadata?.children as Array<{ id: string; title: string; type: string }>) || [];
-  
-  // Create maps for quick lookup by ID
-  const anchorChildrenMap = new Map<string, { id: string; title: string; type: string }>();
-  anchorChildren.forEach(child => {
-    anchorChildrenMap.set(child.id, child);
-  });
-  
-  const comparedChildrenMap = new Map<string, { id: string; title: string; type: string }>();
-  comparedChildren.forEach(child => {
-    comparedChildrenMap.set(child.id, child);
-  });
-  
-  // Find missing children in compared lesson
-  anchorChildren.forEach(anchorChild => {
-    if (!comparedChildrenMap.has(anchorChild.id)) {
+
+  alignLessonChildren(anchorLesson, comparedLesson).forEach(comp => {
+    const { anchorChild, comparedChild } = comp;
+
+    // Find missing children in compared lesson
+    if (anchorChild && !comparedChild) {
       differences.push({
         type: 'missing',
         level: 'lesson',
@@ -41,12 +47,11 @@ function compareLessonChildren(
         description: `${anchorChild.type} "${anchorChild.title}" is missing in compared lesson "${comparedLesson.title}"`,
         severity: 'error',
       });
+      return;
     }
-  });
-  
-  // Find extra children in compared lesson
-  comparedChildren.forEach(comparedChild => {
-    if (!anchorChildrenMap.has(comparedChild.id)) {
+
+    // Find extra children in compared lesson
+    if (comparedChild && !anchorChild) {
       differences.push({
         type: 'extra',
         level: 'lesson',
@@ -54,41 +59,273 @@ function compareLessonChildren(
         description: `Extra ${comparedChild.type} "${comparedChild.title}" found in compared lesson "${comparedLesson.title}"`,
         severity: 'info',
       });
+      return;
+    }
+
+    if (!anchorChild || !comparedChild) return;
+    const path = `Lesson: ${anchorLesson.title} > ${anchorChild.type}: ${anchorChild.title}`;
+
+    if (comp.changes.includes('order')) {
+      differences.push({
+        type: 'order',
+        level: 'lesson',
+        path,
+        description: `${anchorChild.type} "${anchorChild.title}" moved from position ${comp.anchorPosition} to ${comp.comparedPosition} in lesson "${comparedLesson.title}"`,
+        severity: 'warning',
+      });
+    }
+
+    if (comp.changes.includes('type')) {
+      differences.push({
+        type: 'type-change',
+        level: 'lesson',
+        path,
+        description: `"${anchorChild.title}" changed from ${anchorChild.type} to ${comparedChild.type} in lesson "${comparedLesson.title}"`,
+        severity: 'warning',
+      });
+    }
+
+    if (comp.changes.includes('title')) {
+      differences.push({
+        type: 'title-change',
+        level: 'lesson',
+        path,
+        description: `${comparedChild.type} title changed from "${anchorChild.title}" to "${comparedChild.title}" in lesson "${comparedLesson.title}"`,
+        severity: 'warning',
+      });
     }
   });
-  
+
   return differences;
 }
 
+type StructureLevel = 'semester' | 'unit';
+
+/**
+ * A Split (semester) or Unit and the lessons it contains
+ */
+interface StructureGroup {
+  key: string;
+  title: string;
+  splitTitle: string;
+  lessons: Lesson[];
+}
+
+/**
+ * Group a hierarchy's Splits or Units by title (Units within their Split), preserving tree order
+ * Empty Splits and Units are kept so they are reported too; lessons outside any Split/Unit
+ * (e.g. Exams directly under a Split) are not grouped at that level
+ */
+function groupStructure(
+  structure: HierarchyStructure,
+  level: StructureLevel,
+  splitAliases: Map<string, string> = new Map()
+): StructureGroup[] {
+  const groups = new Map<string, StructureGroup>();
+  const containers = level === 'semester' ? structure.splits : structure.units;
+
+  containers.forEach(container => {
+    const containerSplit = level === 'semester' ? container.node.title : container.split?.title || '';
+    const splitTitle = splitAliases.get(containerSplit) ?? containerSplit;
+    const title = container.node.title;
+    if (!title) return;
+
+    const key = level === 'semester' ? splitTitle : `${splitTitle}>${title}`;
+    if (!groups.has(key)) {
+      groups.set(key, { key, title, splitTitle, lessons: [] });
+    }
+    groups.get(key)!.lessons.push(...container.lessons);
+  });
+
+  return Array.from(groups.values());
+}
+
+const describeGroup = (group: StructureGroup, level: StructureLevel): string =>
+  level === 'semester'
+    ? `Semester: ${group.title}`
+    : `${group.splitTitle ? `Semester: ${group.splitTitle} > ` : ''}Unit: ${group.title}`;
+
+const describeLessonCount = (group: StructureGroup): string =>
+  `${group.lessons.length} ${group.lessons.length === 1 ? 'lesson' : 'lessons'}`;
+
+const describeLocation = (group: StructureGroup): string =>
+  group.splitTitle ? ` from ${group.splitTitle}` : '';
+
+/**
+ * Compare Split/Unit structure between hierarchies, read from their trees
+ * Reports whole units or semesters that are missing, extra, renamed or moved,
+ * and returns the lessons those findings already account for so lesson-level
+ * differences are not repeated for every lesson inside them
+ */
+function compareStructure(
+  anchor: Hierarchy,
+  compared: Hierarchy,
+  matches: Map<Lesson, Lesson>
+): {
+  differences: Difference[];
+  coveredAnchorLessons: Set<Lesson>;
+  coveredComparedLessons: Set<Lesson>;
+} {
+  const differences: Difference[] = [];
+  const coveredAnchorLessons = new Set<Lesson>();
+  const coveredComparedLessons = new Set<Lesson>();
+
+  const matchedComparedLessons = new Set(matches.values());
+  const missingSplits = new Set<string>();
+  const extraSplits = new Set<string>();
+  // Renamed semesters: compared title -> anchor title, so their units are not reported as moved
+  const renamedSplits = new Map<string, string>();
+  const anchorStructure = getHierarchyStructure(anchor);
+  const comparedStructure = getHierarchyStructure(compared);
+
+  (['semester', 'unit'] as StructureLevel[]).forEach(level => {
+    const label = level === 'semester' ? 'Semester' : 'Unit';
+    const anchorGroups = groupStructure(anchorStructure, level)
+      .filter(group => level === 'semester' || !missingSplits.has(group.splitTitle));
+    const comparedGroups = groupStructure(comparedStructure, level, level === 'unit' ? renamedSplits : undefined)
+      .filter(group => level === 'semester' || !extraSplits.has(group.splitTitle));
+
+    const anchorKeys = new Set(anchorGroups.map(group => group.key));
+    const comparedByKey = new Map(comparedGroups.map(group => [group.key, group]));
+    const comparedGroupOfLesson = new Map<Lesson, StructureGroup>();
+    comparedGroups.forEach(group => {
+      group.lessons.forEach(lesson => comparedGroupOfLesson.set(lesson, group));
+    });
+    const explainedComparedKeys = new Set<string>();
+
+    anchorGroups.forEach(anchorGroup => {
+      if (comparedByKey.has(anchorGroup.key)) return;
+
+      // Find where the anchor group's lessons ended up in the compared hierarchy
+      const targetCounts = new Map<StructureGroup, number>();
+      anchorGroup.lessons.forEach(lesson => {
+        const match = matches.get(lesson);
+        const target = match && comparedGroupOfLesson.get(match);
+        if (target) {
+          targetCounts.set(target, (targetCounts.get(target) || 0) + 1);
+        }
+      });
+
+      if (targetCounts.size === 0) {
+        // None of the lessons exist in the compared hierarchy: the whole group is missing
+        differences.push({
+          type: 'missing',
+          level,
+          path: describeGroup(anchorGroup, level),
+          description: `${label} "${anchorGroup.title}" missing${level === 'unit' ? describeLocation(anchorGroup) : ''} in compared hierarchy (${describeLessonCount(anchorGroup)})`,
+          severity: 'error',
+          expectedValue: anchorGroup.title,
+          expectedSplit: level === 'unit' ? anchorGroup.splitTitle : undefined,
+        });
+        anchorGroup.lessons
+          .filter(lesson => !matches.has(lesson))
+          .forEach(lesson => coveredAnchorLessons.add(lesson));
+        if (level === 'semester') {
+          missingSplits.add(anchorGroup.splitTitle);
+        }
+        return;
+      }
+
+      // Most of the lessons live in a differently named (or placed) group: renamed or moved
+      const [target] = Array.from(targetCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+      if (anchorKeys.has(target.key)) {
+        // The lessons joined a group the anchor also has: the group itself is missing
+        differences.push({
+          type: 'missing',
+          level,
+          path: describeGroup(anchorGroup, level),
+          description: `${label} "${anchorGroup.title}" missing${level === 'unit' ? describeLocation(anchorGroup) : ''} in compared hierarchy (lessons merged into "${target.title}")`,
+          severity: 'error',
+          expectedValue: anchorGroup.title,
+          actualValue: target.title,
+          expectedSplit: level === 'unit' ? anchorGroup.splitTitle : undefined,
+          actualSplit: level === 'unit' ? target.splitTitle : undefined,
+        });
+        return;
+      }
+      explainedComparedKeys.add(target.key);
+
+      if (level === 'semester') {
+        renamedSplits.set(target.splitTitle, anchorGroup.splitTitle);
+      }
+
+      const moved = level === 'unit' && target.title === anchorGroup.title;
+      differences.push({
+        type: 'mismatch',
+        level,
+        path: describeGroup(anchorGroup, level),
+        description: moved
+          ? `Unit "${anchorGroup.title}" moved from ${anchorGroup.splitTitle || 'no semester'} to ${target.splitTitle || 'no semester'}`
+          : `${label} "${anchorGroup.title}" is named "${target.title}" in compared hierarchy`,
+        severity: 'warning',
+        expectedValue: anchorGroup.title,
+        actualValue: target.title,
+        expectedSplit: level === 'unit' ? anchorGroup.splitTitle : undefined,
+        actualSplit: level === 'unit' ? target.splitTitle : undefined,
+      });
+    });
+
+    comparedGroups.forEach(comparedGroup => {
+      if (anchorKeys.has(comparedGroup.key) || explainedComparedKeys.has(comparedGroup.key)) return;
+      if (comparedGroup.lessons.some(lesson => matchedComparedLessons.has(lesson))) return;
+
+      differences.push({
+        type: 'extra',
+        level,
+        path: describeGroup(comparedGroup, level),
+        description: `Extra ${label.toLowerCase()} "${comparedGroup.title}" found${level === 'unit' && comparedGroup.splitTitle ? ` in ${comparedGroup.splitTitle}` : ''} in compared hierarchy (${describeLessonCount(comparedGroup)})`,
+        severity: 'info',
+        actualValue: comparedGroup.title,
+        actualSplit: level === 'unit' ? comparedGroup.splitTitle : undefined,
+      });
+      comparedGroup.lessons.forEach(lesson => coveredComparedLessons.add(lesson));
+      if (level === 'semester') {
+        extraSplits.add(comparedGroup.splitTitle);
+      }
+    });
+  });
+
+  return { differences, coveredAnchorLessons, coveredComparedLessons };
+}
+
 /**
- * Compare lessons between hierarchies using alignment identifiers
+ * Compare lessons between hierarchies using the shared lesson alignment
  */
 function compareLessons(
-  anchorLessons: Lesson[],
-  comparedLessons: Lesson[],
-  _anchorHierarchyId: string,
-  comparedHierarchyId: string
+  anchor: Hierarchy,
+  compared: Hierarchy,
+  alignment: LessonComparison[],
+  comparedFields?: string[]
 ): {
   differences: Difference[];
   lessonOrderIssues: LessonOrderIssue[];
 } {
-  const differences: Difference[] = [];
+  const anchorLessons = anchor.lessons || [];
+  const comparedLessons = compared.lessons || [];
+  const comparedHierarchyId = compared.id;
   const lessonOrderIssues: LessonOrderIssue[] = [];
+  const matches = getMatchedPairs(alignment);
+  const matchedComparedLessons = new Set(matches.values());
 
-  // Create maps for quick lookup
-  const anchorMap = new Map<string, Lesson>();
-  anchorLessons.forEach(lesson => {
-    anchorMap.set(lesson.id, lesson);
-  });
+  // Compare Split/Unit structure first so whole missing units are reported once
+  const structure = compareStructure(anchor, compared, matches);
+  const differences: Difference[] = [...structure.differences];
 
-  const comparedMap = new Map<string, Lesson>();
-  comparedLessons.forEach(lesson => {
-    comparedMap.set(lesson.id, lesson);
+  // Lessons that genuinely moved (outside the longest in-order run of matched lessons)
+  const movedLessons = new Map<Lesson, number>();
+  alignment.forEach(comp => {
+    if (comp.status === 'order-changed' && comp.anchorLesson) {
+      movedLessons.set(comp.anchorLesson, comp.placesMoved || 1);
+    }
   });
 
   // Find missing lessons in compared hierarchy
   anchorLessons.forEach(anchorLesson => {
-    if (!comparedMap.has(anchorLesson.id)) {
+    const comparedLesson = matches.get(anchorLesson);
+    if (!comparedLesson) {
+      // Already reported as part of a missing unit or semester
+      if (structure.coveredAnchorLessons.has(anchorLesson)) return;
+
       differences.push({
         type: 'missing',
         level: 'lesson',
@@ -97,15 +334,15 @@ function compareLessons(
         severity: 'error',
       });
     } else {
-      const comparedLesson = comparedMap.get(anchorLesson.id)!;
-      
       // Check for order differences
-      if (anchorLesson.order !== comparedLesson.order) {
+      const placesMoved = movedLessons.get(anchorLesson);
+      if (placesMoved !== undefined) {
         lessonOrderIssues.push({
           lessonId: anchorLesson.id,
           lessonTitle: anchorLesson.title,
           expectedOrder: anchorLesson.order,
           actualOrder: comparedLesson.order,
+          placesMoved,
           hierarchyId: comparedHierarchyId,
         });
         
@@ -113,8 +350,21 @@ function compareLessons(
           type: 'order',
           level: 'lesson',
           path: `Lesson: ${anchorLesson.title}`,
-          description: `Lesson order mismatch: expected ${anchorLesson.order}, found ${comparedLesson.order}`,
+          description: `Lesson moved from position ${anchorLesson.order} to ${comparedLesson.order} (${placesMoved} ${placesMoved === 1 ? 'place' : 'places'})`,
+          severity: 'warning',
+        });
+      }
+
+      // Check for title differences (same lesson identity, renamed)
+      if (anchorLesson.title !== comparedLesson.title) {
+        differences.push({
+          type: 'mismatch',
+          level: 'lesson',
+          path: `Lesson: ${anchorLesson.title}`,
+          description: `Title mismatch: anchor has "${anchorLesson.title}", compared has "${comparedLesson.title}"`,
           severity: 'warning',
+          expectedValue: anchorLesson.title,
+          actualValue: comparedLesson.title,
         });
       }
 
@@ -129,6 +379,19 @@ function compareLessons(
         });
       }
       
+      // Check extra CSV columns (Standards, Duration, Grading Type, ...)
+      compareLessonFields(anchorLesson, comparedLesson, comparedFields).forEach(change => {
+        differences.push({
+          type: 'field-change',
+          level: 'lesson',
+          path: `Lesson: ${anchorLesson.title} > ${change.field}`,
+          description: `${change.field} mismatch: anchor has "${change.anchorValue}", compared has "${change.comparedValue}"`,
+          severity: 'warning',
+          expectedValue: change.anchorValue,
+          actualValue: change.comparedValue,
+        });
+      });
+      
       // Compare children (Activities/Quizzes) within the lesson
       const childrenDifferences = compareLessonChildren(anchorLesson, comparedLesson, comparedHierarchyId);
       differences.push(...childrenDifferences);
@@ -137,7 +400,10 @@ function compareLessons(
 
   // Find extra lessons in compared hierarchy
   comparedLessons.forEach(comparedLesson => {
-    if (!anchorMap.has(comparedLesson.id)) {
+    if (!matchedComparedLessons.has(comparedLesson)) {
+      // Already reported as part of an extra unit or semester
+      if (structure.coveredComparedLessons.has(comparedLesson)) return;
+
       differences.push({
         type: 'extra',
         level: 'lesson',
@@ -203,17 +469,14 @@ function compareMetadata(
  */
 export function generateComparisonResult(
   anchor: Hierarchy,
-  compared: Hierarchy
+  compared: Hierarchy,
+  options: ComparisonOptions = {}
 ): ComparisonResult {
   const anchorLessons = anchor.lessons || [];
   const comparedLessons = compared.lessons || [];
 
-  const { differences, lessonOrderIssues } = compareLessons(
-    anchorLessons,
-    comparedLessons,
-    anchor.id,
-    compared.id
-  );
+  const lessonAlignment = alignLessons(anchorLessons, comparedLessons, options);
+  const { differences, lessonOrderIssues } = compareLessons(anchor, compared, lessonAlignment, options.comparedFields);
 
   const metadataIssues = compareMetadata(anchor, compared);
 
@@ -221,21 +484,37 @@ export function generateComparisonResult(
     hierarchyId: compared.id,
     hierarchyName: compared.name,
     differences,
-    productRuleViolations: [], // Can be enhanced later
+    productRuleViolations: evaluateProductRules(compared, options.productRules || DEFAULT_PRODUCT_RULES),
     metadataIssues,
     lessonOrderIssues,
+    lessonAlignment,
   };
 }
 
+/**
+ * Product rule violations of every loaded hierarchy, anchor included, by hierarchy ID
+ */
+export function evaluateAllProductRules(
+  hierarchies: Hierarchy[],
+  rules: ProductRuleDefinition[] = DEFAULT_PRODUCT_RULES
+): Record<string, ProductRuleViolation[]> {
+  const violations: Record<string, ProductRuleViolation[]> = {};
+  hierarchies.forEach(hierarchy => {
+    violations[hierarchy.id] = evaluateProductRules(hierarchy, rules);
+  });
+  return violations;
+}
+
 /**
  * Generate comparison results for multiple hierarchies
  */
 export function generateComparisonResults(
   anchor: Hierarchy,
-  comparedHierarchies: Hierarchy[]
+  comparedHierarchies: Hierarchy[],
+  options: ComparisonOptions = {}
 ): ComparisonResult[] {
   return comparedHierarchies.map(compared => 
-    generateComparisonResult(anchor, compared)
+    generateComparisonResult(anchor, compared, options)
   );
 }
 
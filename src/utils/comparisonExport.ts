@@ -0,0 +1,148 @@
+/**
+ * Comparison Export Utility
+ * Writes the comparison results as one CSV: a row per aligned lesson and lesson child,
+ * then a row per difference, metadata issue and product rule violation, after the anchor course's
+ * own rule violations
+ * Rows come from the engine's results and shared lesson alignment, so the file matches every tab
+ */
+
+import { ChildComparison, ComparisonResult, Hierarchy, LessonComparison, ProductRuleViolation } from '../types';
+import { formatCSVRow } from './csvReader';
+import { alignLessonChildren } from './lessonAlignment';
+
+const COMPARISON_CSV_HEADERS = [
+  'Compared Course',
+  'Record',
+  'Anchor ID',
+  'Anchor Title',
+  'Compared ID',
+  'Compared Title',
+  'Status',
+  'Order Delta',
+  'Unit',
+  'Split',
+  'Severity',
+  'Level',
+  'Path',
+  'Description',
+  'Expected',
+  'Actual',
+];
+
+// Values by column header; Record is Lesson, Child, Difference, Metadata Issue or Rule Violation
+type ExportRow = Record<string, string | undefined>;
+
+// Compared position minus anchor position; blank unless both sides exist
+const formatOrderDelta = (anchorOrder: number | null, comparedOrder: number | null): string =>
+  anchorOrder !== null && comparedOrder !== null ? String(comparedOrder - anchorOrder) : '';
+
+const formatValue = (value: unknown): string =>
+  value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+function getLessonRow(comparison: LessonComparison): ExportRow {
+  const { anchorLesson, comparedLesson } = comparison;
+  const contextLesson = anchorLesson || comparedLesson;
+  return {
+    Record: 'Lesson',
+    'Anchor ID': anchorLesson?.id,
+    'Anchor Title': anchorLesson?.title,
+    'Compared ID': comparedLesson?.id,
+    'Compared Title': comparedLesson?.title,
+    Status: comparison.status,
+    'Order Delta': formatOrderDelta(anchorLesson ? comparison.anchorOrder : null, comparison.comparedOrder),
+    Unit: contextLesson?.unitTitle,
+    Split: contextLesson?.splitTitle,
+  };
+}
+
+function getChildRow(comparison: LessonComparison, childComp: ChildComparison): ExportRow {
+  const contextLesson = comparison.anchorLesson || comparison.comparedLesson;
+  return {
+    Record: 'Child',
+    'Anchor ID': childComp.anchorChild?.id,
+    'Anchor Title': childComp.anchorChild?.title,
+    'Compared ID': childComp.comparedChild?.id,
+    'Compared Title': childComp.comparedChild?.title,
+    Status: childComp.changes.length > 0 ? `${childComp.status} (${childComp.changes.join(', ')})` : childComp.status,
+    'Order Delta': formatOrderDelta(childComp.anchorPosition, childComp.comparedPosition),
+    Unit: contextLesson?.unitTitle,
+    Split: contextLesson?.splitTitle,
+    Path: `Lesson: ${contextLesson?.title}`,
+  };
+}
+
+function getResultRows(result: ComparisonResult): ExportRow[] {
+  const rows: ExportRow[] = [];
+
+  result.lessonAlignment.forEach(comparison => {
+    rows.push(getLessonRow(comparison));
+    alignLessonChildren(comparison.anchorLesson, comparison.comparedLesson).forEach(childComp => {
+      rows.push(getChildRow(comparison, childComp));
+    });
+  });
+
+  result.differences.forEach(diff => {
+    rows.push({
+      Record: 'Difference',
+      Status: diff.type,
+      Severity: diff.severity,
+      Level: diff.level,
+      Path: diff.path,
+      Description: diff.description,
+      Expected: diff.expectedValue,
+      Actual: diff.actualValue,
+    });
+  });
+
+  result.metadataIssues.forEach(issue => {
+    rows.push({
+      Record: 'Metadata Issue',
+      Path: issue.field,
+      Description: issue.description,
+      Expected: formatValue(issue.expectedValue),
+      Actual: formatValue(issue.actualValue),
+    });
+  });
+
+  rows.push(...result.productRuleViolations.map(getViolationRow));
+
+  return rows;
+}
+
+function getViolationRow(violation: ProductRuleViolation): ExportRow {
+  return {
+    Record: 'Rule Violation',
+    Status: violation.ruleId,
+    Severity: violation.severity,
+    Path: violation.ruleName,
+    Description: violation.details,
+  };
+}
+
+const formatExportRow = (course: string, row: ExportRow): string =>
+  formatCSVRow(COMPARISON_CSV_HEADERS.map(header => (header === 'Compared Course' ? course : row[header] || '')));
+
+/**
+ * Serialize every comparison result (one per compared course) to CSV
+ * The anchor has no comparison result holding its rule violations, so they are passed separately
+ */
+export function serializeComparisonCSV(
+  results: ComparisonResult[],
+  anchor?: Hierarchy,
+  anchorRuleViolations: ProductRuleViolation[] = []
+): string {
+  const rows = [
+    formatCSVRow(COMPARISON_CSV_HEADERS),
+    ...(anchor ? anchorRuleViolations.map(violation => formatExportRow(`${anchor.name} (anchor)`, getViolationRow(violation))) : []),
+    ...results.flatMap(result => getResultRows(result).map(row => formatExportRow(result.hierarchyName, row))),
+  ];
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * File name for a comparison export, based on the anchor course name
+ */
+export function getComparisonFileName(anchor: Hierarchy, extension: string): string {
+  const slug = anchor.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'course'}-comparison.${extension}`;
+}
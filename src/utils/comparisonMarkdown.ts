@@ -0,0 +1,175 @@
+/**
+ * Comparison Markdown Utility
+ * Renders the comparison as Markdown for Jira tickets and Confluence pages: a header naming the
+ * courses and implementation models, summary counts, and tables of removed, added and reordered
+ * lessons, column changes and rule violations for each compared course, plus the anchor course's
+ * own rule violations
+ * The options carry the filters of the tab the copy was made from (one compared course, one presence category)
+ */
+
+import { ComparisonResult, Hierarchy, ProductRuleViolation } from '../types';
+import { compareLessonFields, countLessonStatuses, getMatchedPairs } from './lessonAlignment';
+import { buildLessonMatrix } from './lessonMatrix';
+import { getPresenceLabels, summarizePresence } from './presence';
+
+export interface MarkdownOptions {
+  fuzzyThreshold?: number;
+  comparedFields?: string[] | null; // null = every shared column
+  anchorRuleViolations?: ProductRuleViolation[]; // The anchor has no comparison result holding its violations
+  comparedHierarchyId?: string; // Only this compared course (tabs that page through the courses)
+  presenceCategory?: string | null; // Lists this presence category; null = the first one, as the Presence tab shows
+}
+
+// Pipes would end the cell and line breaks the row
+const escapeCell = (value: unknown): string =>
+  String(value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+const renderTable = (headers: string[], rows: unknown[][]): string =>
+  rows.length === 0
+    ? '_None_'
+    : [
+      `| ${headers.join(' | ')} |`,
+      `| ${headers.map(() => '---').join(' | ')} |`,
+      ...rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+    ].join('\n');
+
+const describeCourse = (hierarchy: Hierarchy | undefined, fallbackName: string): string =>
+  hierarchy?.implementationModel
+    ? `${hierarchy.name} (${hierarchy.implementationModel})`
+    : hierarchy?.name || fallbackName;
+
+const renderViolations = (violations: ProductRuleViolation[]): string => [
+  `### Rule violations (${violations.length})`,
+  renderTable(
+    ['Rule', 'Severity', 'Details'],
+    violations.map(violation => [violation.ruleName, violation.severity, violation.details])
+  ),
+].join('\n\n');
+
+function renderCourseSection(
+  anchorName: string,
+  comparedName: string,
+  result: ComparisonResult,
+  comparedFields: string[] | null | undefined
+): string {
+  const alignment = result.lessonAlignment;
+  const removed = alignment.filter(comp => comp.status === 'removed');
+  const added = alignment.filter(comp => comp.status === 'added');
+  const reordered = alignment.filter(comp => comp.status === 'order-changed');
+
+  return [
+    `## ${anchorName} → ${comparedName}`,
+    `### Removed lessons (${removed.length})`,
+    renderTable(
+      ['#', 'ID', 'Title', 'Unit'],
+      removed.map(comp => [comp.anchorOrder, comp.anchorLesson?.id, comp.anchorLesson?.title, comp.anchorLesson?.unitTitle])
+    ),
+    `### Added lessons (${added.length})`,
+    renderTable(
+      ['#', 'ID', 'Title', 'Unit'],
+      added.map(comp => [comp.comparedOrder, comp.comparedLesson?.id, comp.comparedLesson?.title, comp.comparedLesson?.unitTitle])
+    ),
+    `### Reordered lessons (${reordered.length})`,
+    renderTable(
+      ['ID', 'Title', 'From', 'To', 'Places Moved'],
+      reordered.map(comp => [comp.anchorLesson?.id, comp.anchorLesson?.title, comp.anchorOrder, comp.comparedOrder, comp.placesMoved])
+    ),
+    renderFieldChanges(result, comparedFields),
+    renderViolations(result.productRuleViolations),
+  ].join('\n\n');
+}
+
+function renderFieldChanges(result: ComparisonResult, comparedFields: string[] | null | undefined): string {
+  const rows: unknown[][] = [];
+  getMatchedPairs(result.lessonAlignment).forEach((comparedLesson, anchorLesson) => {
+    compareLessonFields(anchorLesson, comparedLesson, comparedFields ?? undefined).forEach(change => {
+      rows.push([anchorLesson.title, change.field, change.anchorValue, change.comparedValue]);
+    });
+  });
+  return [
+    `### Column changes (${rows.length})`,
+    renderTable(['Lesson', 'Column', 'Anchor', 'Compared'], rows),
+  ].join('\n\n');
+}
+
+function renderPresence(
+  anchor: Hierarchy,
+  comparedHierarchies: Hierarchy[],
+  results: ComparisonResult[],
+  categoryKey: string | null
+): string {
+  const matrix = buildLessonMatrix(anchor, comparedHierarchies, results);
+  const summary = summarizePresence(matrix);
+  const labels = getPresenceLabels(matrix.columns);
+  const category = summary.categories.find(c => c.key === categoryKey) || summary.categories[0];
+  if (!category) return '## Presence\n\n_None_';
+
+  return [
+    `## Presence: ${category.label} (${category.rows.length})`,
+    renderTable(
+      ['Lesson', 'Positions'],
+      category.rows.map(row => [
+        row.title,
+        row.cells.map((cell, index) => (cell ? `${labels[index]} #${cell.order}` : '')).filter(Boolean).join(', '),
+      ])
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * Render the comparison results (one per compared course) as Markdown
+ */
+export function buildComparisonMarkdown(
+  anchor: Hierarchy,
+  comparedHierarchies: Hierarchy[],
+  results: ComparisonResult[],
+  options: MarkdownOptions = {}
+): string {
+  const shownResults = options.comparedHierarchyId
+    ? results.filter(result => result.hierarchyId === options.comparedHierarchyId)
+    : results;
+  const anchorName = describeCourse(anchor, anchor.name);
+  const comparedNames = shownResults.map(result =>
+    describeCourse(comparedHierarchies.find(h => h.id === result.hierarchyId), result.hierarchyName)
+  );
+
+  const anchorViolations = options.anchorRuleViolations || [];
+  const filters: string[] = [];
+  if (options.fuzzyThreshold !== undefined) {
+    filters.push(`title match threshold ${Math.round(options.fuzzyThreshold * 100)}%`);
+  }
+  if (options.comparedFields) {
+    filters.push(`compared columns: ${options.comparedFields.join(', ') || 'none'}`);
+  }
+
+  const summary = renderTable(
+    ['Course', 'Same', 'Order Changed', 'Removed', 'Added', 'Suggested', 'Rule Violations'],
+    [[`${anchorName} (anchor)`, '—', '—', '—', '—', '—', anchorViolations.length]].concat(shownResults.map((result, index) => {
+      const counts = countLessonStatuses(result.lessonAlignment);
+      return [
+        comparedNames[index],
+        counts.same,
+        counts['order-changed'],
+        counts.removed,
+        counts.added,
+        counts.suggested,
+        result.productRuleViolations.length,
+      ];
+    }))
+  );
+
+  return [
+    `# ${anchorName} vs ${comparedNames.join(', ')}`,
+    ...(filters.length > 0 ? [`_Filters: ${filters.join('; ')}_`] : []),
+    '## Summary',
+    summary,
+    ...(options.presenceCategory !== undefined
+      ? [renderPresence(anchor, comparedHierarchies, results, options.presenceCategory)]
+      : []),
+    `## ${anchorName} (anchor)`,
+    renderViolations(anchorViolations),
+    ...shownResults.map((result, index) =>
+      renderCourseSection(anchorName, comparedNames[index], result, options.comparedFields)
+    ),
+  ].join('\n\n') + '\n';
+}
@@ -0,0 +1,224 @@
+/**
+ * Comparison Report Utility
+ * Builds a standalone HTML review report for sign-off: summary counts, the metadata table,
+ * the side-by-side lesson table with status colors and the product rule section per compared course,
+ * plus the anchor course's own product rule results
+ * All CSS is inline and each compared course starts on a new printed page, so the file
+ * opens and prints the same on any machine
+ */
+
+import { ChildComparison, ComparisonResult, Hierarchy, LessonComparison, ProductRuleViolation } from '../types';
+import { alignLessonChildren, countLessonStatuses } from './lessonAlignment';
+import { METADATA_FIELDS, MetadataValue, getMetadataValue, isMetadataDifferent } from './courseMetadata';
+
+type Status = LessonComparison['status'] | ChildComparison['status'];
+
+const STATUS_LABELS: Record<Status, string> = {
+  same: '✓ Same',
+  'order-changed': '↔ Order Changed',
+  removed: '− Removed',
+  added: '+ Added',
+  suggested: '≈ Suggested Match',
+  changed: '~ Changed',
+};
+
+const LESSON_STATUSES: LessonComparison['status'][] = ['same', 'order-changed', 'removed', 'added', 'suggested'];
+
+// Same colors as the Lesson Comparison view
+const REPORT_CSS = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333; margin: 24px; font-size: 13px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; border-bottom: 2px solid #e0e0e0; padding-bottom: 4px; }
+  h3 { font-size: 14px; margin: 16px 0 6px; }
+  .generated { color: #888; font-size: 12px; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+  th, td { border: 1px solid #e0e0e0; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f8f9fa; font-weight: 600; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; break-inside: avoid; }
+  .muted { color: #888; font-size: 11px; }
+  .different { background: #fff8e1; }
+  .status-same { background: #f0fff4; }
+  .status-order-changed { background: #fff8e1; }
+  .status-removed { background: #ffebee; }
+  .status-added { background: #e3f2fd; }
+  .status-suggested { background: #f3e5f5; }
+  .status-changed { background: #fff8e1; }
+  .child-row td { font-size: 12px; }
+  .child-row td:first-child { padding-left: 24px; }
+  .badge-same { color: #28a745; }
+  .badge-order-changed, .badge-changed { color: #ff9800; }
+  .badge-removed { color: #dc3545; }
+  .badge-added { color: #007bff; }
+  .badge-suggested { color: #8e24aa; }
+  .error { color: #d32f2f; }
+  .warning { color: #f57c00; }
+  .compliant { color: #28a745; font-weight: 600; }
+  .summary td:last-child { font-weight: 600; }
+  .course-section { page-break-before: always; break-before: page; }
+  @media print { body { margin: 0; } }
+`;
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatMetadataValue = (value: MetadataValue): string =>
+  Array.isArray(value) ? value.join(', ') : value || '—';
+
+const renderLessonCell = (title?: string, id?: string, detail?: string | null): string =>
+  title === undefined
+    ? '<td>—</td>'
+    : `<td>${escapeHtml(title)}<div class="muted">${escapeHtml(id)}${detail ? ` · ${escapeHtml(detail)}` : ''}</div></td>`;
+
+function renderSummary(
+  anchor: Hierarchy,
+  anchorViolations: ProductRuleViolation[],
+  comparedHierarchies: Hierarchy[],
+  results: ComparisonResult[]
+): string {
+  const anchorRow = `<tr>
+      <td>${escapeHtml(anchor.name)} (anchor)</td>
+      ${LESSON_STATUSES.map(() => '<td>—</td>').join('')}
+      <td>—</td>
+      <td>—</td>
+      <td class="${anchorViolations.length > 0 ? 'error' : ''}">${anchorViolations.length}</td>
+    </tr>`;
+  const rows = results.map(result => {
+    const counts = countLessonStatuses(result.lessonAlignment);
+    const hierarchy = comparedHierarchies.find(h => h.id === result.hierarchyId);
+    return `<tr>
+      <td>${escapeHtml(hierarchy?.name || result.hierarchyName)}</td>
+      ${LESSON_STATUSES.map(status => `<td>${counts[status]}</td>`).join('')}
+      <td>${result.differences.length}</td>
+      <td>${result.metadataIssues.length}</td>
+      <td class="${result.productRuleViolations.length > 0 ? 'error' : ''}">${result.productRuleViolations.length}</td>
+    </tr>`;
+  });
+  return `<h2>Summary</h2>
+    <table class="summary">
+      <thead><tr>
+        <th>Course</th>
+        ${LESSON_STATUSES.map(status => `<th>${escapeHtml(STATUS_LABELS[status])}</th>`).join('')}
+        <th>Differences</th><th>Metadata Issues</th><th>Rule Violations</th>
+      </tr></thead>
+      <tbody>${anchorRow}${rows.join('')}</tbody>
+    </table>`;
+}
+
+function renderMetadata(anchor: Hierarchy, compared: Hierarchy): string {
+  const rows = METADATA_FIELDS.map(field => {
+    const anchorValue = getMetadataValue(anchor, field);
+    const comparedValue = getMetadataValue(compared, field);
+    const isDifferent = isMetadataDifferent(anchorValue, comparedValue);
+    return `<tr class="${isDifferent ? 'different' : ''}">
+      <td>${escapeHtml(field)}</td>
+      <td>${escapeHtml(formatMetadataValue(anchorValue))}</td>
+      <td>${escapeHtml(formatMetadataValue(comparedValue))}</td>
+      <td>${isDifferent ? '⚠' : ''}</td>
+    </tr>`;
+  });
+  return `<h3>Metadata</h3>
+    <table>
+      <thead><tr><th>Field</th><th>Anchor Course</th><th>Compared Course</th><th></th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>`;
+}
+
+function renderLessons(result: ComparisonResult): string {
+  const rows = result.lessonAlignment.map(comparison => {
+    const { anchorLesson, comparedLesson } = comparison;
+    const status = comparison.status;
+    const moved = comparison.placesMoved ? ` (${comparison.placesMoved})` : '';
+    const score = comparison.matchScore !== undefined ? ` ${Math.round(comparison.matchScore * 100)}%` : '';
+    const lessonRow = `<tr class="status-${status}">
+      <td>${anchorLesson ? comparison.anchorOrder : ''}</td>
+      ${renderLessonCell(anchorLesson?.title, anchorLesson?.id, anchorLesson?.unitTitle)}
+      <td class="badge-${status}">${escapeHtml(STATUS_LABELS[status] + moved + score)}</td>
+      <td>${comparedLesson ? comparison.comparedOrder : ''}</td>
+      ${renderLessonCell(comparedLesson?.title, comparedLesson?.id, comparedLesson?.unitTitle)}
+    </tr>`;
+
+    const childRows = alignLessonChildren(anchorLesson, comparedLesson).map(childComp => {
+      const changes = childComp.changes.length > 0 ? ` (${childComp.changes.join(', ')})` : '';
+      return `<tr class="child-row status-${childComp.status}">
+        <td>${childComp.anchorPosition ?? ''}</td>
+        ${renderLessonCell(childComp.anchorChild?.title, childComp.anchorChild?.id, childComp.anchorChild?.type)}
+        <td class="badge-${childComp.status}">${escapeHtml(STATUS_LABELS[childComp.status] + changes)}</td>
+        <td>${childComp.comparedPosition ?? ''}</td>
+        ${renderLessonCell(childComp.comparedChild?.title, childComp.comparedChild?.id, childComp.comparedChild?.type)}
+      </tr>`;
+    });
+    return lessonRow + childRows.join('');
+  });
+  return `<h3>Lessons</h3>
+    <table>
+      <thead><tr><th>#</th><th>Anchor Course</th><th>Status</th><th>#</th><th>Compared Course</th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>`;
+}
+
+function renderProductRules(violations: ProductRuleViolation[]): string {
+  if (violations.length === 0) {
+    return '<h3>Product Rules</h3><p class="compliant">✓ Compliant</p>';
+  }
+  const rows = violations.map(violation => `<tr>
+    <td>${escapeHtml(violation.ruleName)}<div class="muted">${escapeHtml(violation.ruleDescription)}</div></td>
+    <td class="${violation.severity}">${escapeHtml(violation.severity.toUpperCase())}</td>
+    <td>${escapeHtml(violation.details)}</td>
+  </tr>`);
+  return `<h3>Product Rules</h3>
+    <p class="error">⚠ ${violations.length} Violation(s)</p>
+    <table>
+      <thead><tr><th>Rule</th><th>Severity</th><th>Details</th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>`;
+}
+
+export interface ReportOptions {
+  includeMetadata?: boolean; // Pasted text has no course metadata, so paste mode leaves the table out
+  anchorRuleViolations?: ProductRuleViolation[]; // The anchor has no comparison result holding its violations
+}
+
+/**
+ * Build the review report for an anchor course and its comparison results (one per compared course)
+ */
+export function buildComparisonReport(
+  anchor: Hierarchy,
+  comparedHierarchies: Hierarchy[],
+  results: ComparisonResult[],
+  options: ReportOptions = {}
+): string {
+  const includeMetadata = options.includeMetadata ?? true;
+  const anchorViolations = options.anchorRuleViolations || [];
+  const sections = results.map(result => {
+    const compared = comparedHierarchies.find(h => h.id === result.hierarchyId);
+    return `<section class="course-section">
+      <h2>${escapeHtml(anchor.name)} → ${escapeHtml(compared?.name || result.hierarchyName)}</h2>
+      ${includeMetadata && compared ? renderMetadata(anchor, compared) : ''}
+      ${renderLessons(result)}
+      ${renderProductRules(result.productRuleViolations)}
+    </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(anchor.name)} comparison report</title>
+<style>${REPORT_CSS}</style>
+</head>
+<body>
+<h1>${escapeHtml(anchor.name)} comparison report</h1>
+<div class="generated">Anchor course: ${escapeHtml(anchor.name)} · Generated ${escapeHtml(new Date().toLocaleString())}</div>
+${renderSummary(anchor, anchorViolations, comparedHierarchies, results)}
+<h2>${escapeHtml(anchor.name)} (anchor)</h2>
+${renderProductRules(anchorViolations)}
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
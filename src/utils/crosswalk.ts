@@ -0,0 +1,143 @@
+/**
+ * Crosswalk Utility
+ * Maps the IDs one lesson has across implementation models (IC ID, CR ID, Honors ID)
+ * Consulted by the comparison engine and lesson view before ID and title matching
+ * Crosswalks are imported/exported as CSV and persisted locally in the side panel
+ */
+
+import { CrosswalkEntry, ImplementationModel } from '../types';
+import { formatCSVRow, parseCSVRecords } from './csvReader';
+
+const STORAGE_KEY = 'course-comparison.crosswalk';
+
+const CROSSWALK_MODELS: ImplementationModel[] = ['IC', 'CR', 'Honors'];
+
+const HEADER_ALIASES: Record<ImplementationModel, string[]> = {
+  IC: ['ic id', 'ic', 'ic lesson id'],
+  CR: ['cr id', 'cr', 'cr lesson id'],
+  Honors: ['honors id', 'honors', 'hon id', 'hon', 'honors lesson id'],
+};
+
+/**
+ * Parse crosswalk CSV content (columns: IC ID, CR ID, Honors ID)
+ */
+export function parseCrosswalkCSV(content: string): CrosswalkEntry[] {
+  const records = parseCSVRecords(content);
+  if (records.length === 0) {
+    throw new Error('Crosswalk file is empty');
+  }
+
+  const headers = records[0].values.map(header => header.trim().toLowerCase());
+  const columns = new Map<ImplementationModel, number>();
+  CROSSWALK_MODELS.forEach(model => {
+    const index = headers.findIndex(header => HEADER_ALIASES[model].includes(header));
+    if (index !== -1) {
+      columns.set(model, index);
+    }
+  });
+
+  if (columns.size < 2) {
+    throw new Error('Crosswalk header must contain at least two of: IC ID, CR ID, Honors ID');
+  }
+
+  const entries: CrosswalkEntry[] = [];
+  records.slice(1).forEach(({ values }) => {
+    const entry: CrosswalkEntry = {};
+    columns.forEach((index, model) => {
+      const value = values[index]?.trim();
+      if (value) {
+        entry[model] = value;
+      }
+    });
+    // A row needs at least two IDs to link anything
+    if (Object.keys(entry).length >= 2) {
+      entries.push(entry);
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Serialize crosswalk entries to CSV
+ */
+export function serializeCrosswalkCSV(entries: CrosswalkEntry[]): string {
+  const rows = [
+    formatCSVRow(CROSSWALK_MODELS.map(model => `${model} ID`)),
+    ...entries.map(entry => formatCSVRow(CROSSWALK_MODELS.map(model => entry[model] || ''))),
+  ];
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * All IDs linked to a lesson ID by the crosswalk (excluding the ID itself)
+ */
+export function getCrosswalkIds(crosswalk: CrosswalkEntry[], lessonId: string): Set<string> {
+  const ids = new Set<string>();
+  crosswalk.forEach(entry => {
+    const entryIds = Object.values(entry).filter((id): id is string => !!id);
+    if (entryIds.includes(lessonId)) {
+      entryIds.forEach(id => ids.add(id));
+    }
+  });
+  ids.delete(lessonId);
+  return ids;
+}
+
+/**
+ * Record that two lesson IDs are the same lesson in two implementation models
+ * Fills the row that already holds one of the IDs, otherwise appends a new row
+ */
+export function addCrosswalkPairing(
+  crosswalk: CrosswalkEntry[],
+  anchorModel: ImplementationModel,
+  anchorId: string,
+  comparedModel: ImplementationModel,
+  comparedId: string
+): CrosswalkEntry[] {
+  if (anchorModel === comparedModel) {
+    throw new Error(`Cannot pair two ${anchorModel} lessons in a crosswalk`);
+  }
+
+  const index = crosswalk.findIndex(entry =>
+    (entry[anchorModel] === anchorId && (!entry[comparedModel] || entry[comparedModel] === comparedId)) ||
+    (entry[comparedModel] === comparedId && !entry[anchorModel])
+  );
+
+  if (index === -1) {
+    return [...crosswalk, { [anchorModel]: anchorId, [comparedModel]: comparedId }];
+  }
+
+  const updated = [...crosswalk];
+  updated[index] = { ...updated[index], [anchorModel]: anchorId, [comparedModel]: comparedId };
+  return updated;
+}
+
+/**
+ * Load the persisted crosswalk
+ */
+export function loadCrosswalk(): CrosswalkEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        return parsed as CrosswalkEntry[];
+      }
+    }
+  } catch (err) {
+    console.warn('Ignoring invalid stored crosswalk:', err);
+  }
+  return [];
+}
+
+/**
+ * Persist the crosswalk locally
+ */
+export function saveCrosswalk(crosswalk: CrosswalkEntry[]): void {
+  if (crosswalk.length > 0) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(crosswalk));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
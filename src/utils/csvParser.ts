@@ -2,9 +2,20 @@
  * CSV Parser Utility
  * Parses course hierarchy CSV files and converts them to Hierarchy objects
  * Handles client-side CSV parsing without backend services
+ * Skipped rows and guessed values are reported as diagnostics with their spreadsheet row number
  */
 
-import { Hierarchy, Lesson, HierarchyVersion, ImplementationModel } from '../types';
+import { Hierarchy, Lesson, HierarchyVersion, ImplementationModel, ParseDiagnostic } from '../types';
+import { buildTreeFromLessons, extractLessons } from './hierarchyTree';
+import { CSVRecord, decodeText, formatCSVRow, parseCSVRecords } from './csvReader';
+import {
+  ColumnMapping,
+  CSVField,
+  findHeaderRow,
+  getHeaderSignature,
+  loadColumnMapping,
+  suggestColumnMapping,
+} from './columnMapping';
 
 export interface CSVRow {
   hierarchyId: string;
@@ -18,139 +29,152 @@ export interface CSVRow {
   subject: string;
   title: string;
   sourceOrder?: string;
-  [key: string]: string | undefined;
+  fields: Record<string, string>; // Unmapped columns by header, kept on the lesson
+  sourceRow: number; // 1-based row of the record in the file or sheet
+  sourceText: string; // The record as read, for diagnostics
+}
+
+export interface CSVParseResult {
+  hierarchies: Hierarchy[];
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface CSVTable {
+  headers: string[];
+  headerRow: number; // 1-based row number of the header
+  isHeaderGuessed: boolean; // No row had recognizable column names; the first non-empty row was used
+  records: CSVRecord[]; // Data records below the header
 }
 
 /**
- * Parse CSV file content into rows
+ * Read CSV content and locate its header row
+ * Delimiter (comma, semicolon or tab) is detected; quoted fields may span lines
  */
-export function parseCSV(content: string): CSVRow[] {
-  const lines = content.split('\n').filter(line => line.trim());
-  
+export function readCSVTable(content: string): CSVTable {
+  return buildCSVTable(parseCSVRecords(content));
+}
+
+/**
+ * Locate the header row in records from a CSV file or a workbook sheet
+ * When no row has recognizable column names, the first non-empty row is taken as the header
+ * (flagged as guessed) so the columns can be mapped by hand
+ */
+export function buildCSVTable(records: CSVRecord[]): CSVTable {
   // Skip empty lines and header rows
-  // The CSV has 2-3 header rows, we need to find the actual data header
-  let headerIndex = -1;
-  let headerRow: string[] = [];
-  
-  // Find the header row (contains "Hierarchy ID")
-  for (let i = 0; i < Math.min(5, lines.length); i++) {
-    if (lines[i].includes('Hierarchy ID')) {
-      headerIndex = i;
-      headerRow = parseCSVLine(lines[i]);
-      break;
-    }
+  // Reports put a few title rows above the actual data header
+  let headerIndex = findHeaderRow(records);
+  const isHeaderGuessed = headerIndex === -1;
+  if (isHeaderGuessed) {
+    headerIndex = records.findIndex(record => record.values.some(value => value.trim()));
   }
   
   if (headerIndex === -1) {
-    throw new Error('Could not find CSV header row');
+    throw new Error('Could not find CSV header row (the file has no data)');
   }
   
-  // Parse data rows
+  return {
+    headers: records[headerIndex].values.map(header => header.trim()),
+    headerRow: records[headerIndex].row,
+    isHeaderGuessed,
+    records: records.slice(headerIndex + 1),
+  };
+}
+
+/**
+ * Convert table records into rows using a column mapping
+ * Unmapped columns are kept in the row's fields under their header name
+ */
+export function mapCSVRows(table: CSVTable, mapping: ColumnMapping, diagnostics: ParseDiagnostic[] = []): CSVRow[] {
+  const fieldByColumn = new Map<number, CSVField>();
+  (Object.entries(mapping) as Array<[CSVField, number]>).forEach(([field, column]) => {
+    fieldByColumn.set(column, field);
+  });
+  
   const rows: CSVRow[] = [];
-  for (let i = headerIndex + 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length === 0 || values.every(v => !v.trim())) continue;
+  table.records.forEach(({ values, row: sourceRow }) => {
+    if (values.length === 0 || values.every(v => !v.trim())) return;
     
-    const row: any = {};
-    headerRow.forEach((header, index) => {
-      const cleanHeader = header.trim();
+    const row: any = { fields: {} };
+    table.headers.forEach((header, index) => {
       const value = values[index]?.trim() || '';
-      
-      // Map headers to our interface
-      switch (cleanHeader) {
-        case 'Hierarchy ID':
-          row.hierarchyId = value;
-          break;
-        case 'Hierarchy Name':
-          row.hierarchyName = value;
-          break;
-        case 'Split Title':
-          row.splitTitle = value;
-          break;
-        case 'Unit Title':
-          row.unitTitle = value;
-          break;
-        case 'EdgeEx Lesson ID':
-          row.edgeExLessonId = value;
-          break;
-        case 'EdgeEx Lesson Title':
-          row.edgeExLessonTitle = value;
-          break;
-        case 'Alignment Identifier':
-          row.alignmentIdentifier = value;
-          break;
-        case 'Variant Identifier':
-          row.variantIdentifier = value;
-          break;
-        case 'Subject':
-          row.subject = value;
-          break;
-        case 'Title':
-          row.title = value;
-          break;
-        case 'Source Order':
-          row.sourceOrder = value;
-          break;
-        default:
-          row[cleanHeader] = value;
+      const field = fieldByColumn.get(index);
+      if (field) {
+        row[field] = value;
+      } else if (header) {
+        row.fields[header] = value;
       }
     });
+    row.sourceRow = sourceRow;
+    row.sourceText = formatCSVRow(values);
     
     // Only add rows with hierarchy ID
     if (row.hierarchyId) {
       rows.push(row as CSVRow);
+    } else {
+      diagnostics.push({ line: sourceRow, severity: 'error', message: 'No Hierarchy ID; row skipped', text: row.sourceText });
     }
-  }
+  });
   
   return rows;
 }
 
 /**
- * Parse a single CSV line, handling quoted values
+ * Parse CSV file content into rows
+ * Uses a remembered mapping for this header layout, otherwise the suggested one
+ */
+export function parseCSV(content: string, diagnostics: ParseDiagnostic[] = []): CSVRow[] {
+  const table = readCSVTable(content);
+  const mapping = loadColumnMapping(getHeaderSignature(table.headers))
+    || suggestColumnMapping(table.headers).mapping;
+  return mapCSVRows(table, mapping, diagnostics);
+}
+
+/**
+ * Group rows by Hierarchy ID, in order of first appearance
+ * Bulk reports list several hierarchies in one file
  */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++;
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      // End of field
-      result.push(current);
-      current = '';
+export function groupRowsByHierarchy(rows: CSVRow[]): CSVRow[][] {
+  const groups = new Map<string, CSVRow[]>();
+  rows.forEach(row => {
+    const group = groups.get(row.hierarchyId);
+    if (group) {
+      group.push(row);
     } else {
-      current += char;
+      groups.set(row.hierarchyId, [row]);
     }
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Convert CSV rows to one Hierarchy per Hierarchy ID
+ * Diagnostics are sorted by row once all hierarchies are read
+ */
+export function csvRowsToHierarchies(rows: CSVRow[], diagnostics: ParseDiagnostic[] = []): Hierarchy[] {
+  if (rows.length === 0) {
+    throw new Error('No data rows found in CSV');
   }
-  
-  // Add last field
-  result.push(current);
-  
-  return result;
+  const hierarchies = groupRowsByHierarchy(rows).map(group => csvRowsToHierarchy(group, diagnostics));
+  diagnostics.sort((a, b) => a.line - b.line);
+  return hierarchies;
 }
 
 /**
- * Convert CSV rows to Hierarchy object
+ * Convert CSV rows of a single hierarchy to a Hierarchy object
+ * Rows with a different Hierarchy ID than the first row are rejected; use csvRowsToHierarchies for bulk reports
  */
-export function csvRowsToHierarchy(rows: CSVRow[]): Hierarchy {
+export function csvRowsToHierarchy(rows: CSVRow[], diagnostics: ParseDiagnostic[] = []): Hierarchy {
   if (rows.length === 0) {
     throw new Error('No data rows found in CSV');
   }
   
   const firstRow = rows[0];
   const hierarchyId = firstRow.hierarchyId;
-  const hierarchyName = firstRow.hierarchyName;
+  const otherIds = new Set(rows.filter(row => row.hierarchyId !== hierarchyId).map(row => row.hierarchyId));
+  if (otherIds.size > 0) {
+    throw new Error(`CSV rows belong to ${otherIds.size + 1} hierarchies (${[hierarchyId, ...otherIds].join(', ')}); load them separately`);
+  }
+  const hierarchyName = firstRow.hierarchyName || hierarchyId;
   const subject = firstRow.subject || 'Not Set Yet';
   
   // Determine implementation model from hierarchy name
@@ -171,14 +195,33 @@ export function csvRowsToHierarchy(rows: CSVRow[]): Hierarchy {
   // Convert rows to lessons
   // Group by unit/semester to maintain proper ordering
   const lessonsMap = new Map<string, Lesson>();
+  const rowsByLessonId = new Map<string, CSVRow>();
   
   rows.forEach((row, index) => {
+    const report = (severity: ParseDiagnostic['severity'], message: string) => {
+      diagnostics.push({ line: row.sourceRow, severity, message, text: row.sourceText });
+    };
+    
     // Use Alignment Identifier as primary ID for matching across hierarchies
     // Fall back to Variant Identifier or EdgeEx Lesson ID
     const lessonId = row.alignmentIdentifier || row.variantIdentifier || row.edgeExLessonId;
+    if (!lessonId) {
+      report('error', 'No Alignment Identifier, Variant Identifier or EdgeEx Lesson ID; row skipped');
+      return;
+    }
+    
+    // If lesson ID already exists, keep the one with lower order (first occurrence)
+    const firstLessonRow = rowsByLessonId.get(lessonId);
+    if (firstLessonRow) {
+      report('warning', `Duplicate lesson ID "${lessonId}" (first on row ${firstLessonRow.sourceRow}); row ignored`);
+      return;
+    }
     
     // Use Title column (column 11) or EdgeEx Lesson Title
     const lessonTitle = row.title || row.edgeExLessonTitle || `Lesson ${index + 1}`;
+    if (!row.title && !row.edgeExLessonTitle) {
+      report('warning', `No Title or EdgeEx Lesson Title; shown as "${lessonTitle}"`);
+    }
     
     // Try to parse order from Source Order, otherwise use index
     let order = index + 1;
@@ -186,41 +229,72 @@ export function csvRowsToHierarchy(rows: CSVRow[]): Hierarchy {
       const parsedOrder = parseInt(row.sourceOrder, 10);
       if (!isNaN(parsedOrder)) {
         order = parsedOrder;
+      } else {
+        report('warning', `Source Order "${row.sourceOrder}" is not a number; using the row position`);
       }
     }
     
-    // If lesson ID already exists, keep the one with lower order (first occurrence)
-    if (!lessonsMap.has(lessonId)) {
-    
-      const lesson: Lesson = {
-        id: lessonId,
-        title: lessonTitle,
-        order: order,
-        variant: row.variantIdentifier || undefined,
-      };
-      
-      // Add metadata if the type supports it
-      if ('metadata' in lesson) {
-        (lesson as any).metadata = {
-          unitTitle: row.unitTitle,
-          splitTitle: row.splitTitle,
-          edgeExLessonId: row.edgeExLessonId,
-          alignmentIdentifier: row.alignmentIdentifier,
-          variantIdentifier: row.variantIdentifier,
-        };
-      }
-      
-      lessonsMap.set(lessonId, lesson);
-    }
+    lessonsMap.set(lessonId, {
+      id: lessonId,
+      title: lessonTitle,
+      order: order,
+      splitTitle: row.splitTitle || undefined,
+      unitTitle: row.unitTitle || undefined,
+    });
+    rowsByLessonId.set(lessonId, row);
   });
   
+  if (lessonsMap.size === 0) {
+    diagnostics.push({ line: 0, severity: 'error', message: `No lessons found for hierarchy ${hierarchyId}`, text: '' });
+  }
+  
   // Convert map to array and sort by order
-  const lessons = Array.from(lessonsMap.values());
-  lessons.sort((a, b) => a.order - b.order);
+  const sortedLessons = Array.from(lessonsMap.values());
+  sortedLessons.sort((a, b) => a.order - b.order);
+  
+  // A Unit or Split whose lessons are interrupted by another one keeps its Source Order; it shows once per run
+  const seenContainers = new Set<string>();
+  const reportedContainers = new Set<string>();
+  let previousUnitKey: string | null = null;
+  let previousSplitKey: string | null = null;
+  sortedLessons.forEach(lesson => {
+    const row = rowsByLessonId.get(lesson.id)!;
+    const splitKey = `Semester "${lesson.splitTitle || ''}"`;
+    const unitKey = `Unit "${lesson.unitTitle || ''}"${lesson.splitTitle ? ` in semester "${lesson.splitTitle}"` : ''}`;
+    [
+      { key: splitKey, previous: previousSplitKey, title: lesson.splitTitle },
+      { key: unitKey, previous: previousUnitKey, title: lesson.unitTitle },
+    ].forEach(({ key, previous, title }) => {
+      if (!title || key === previous) return;
+      if (seenContainers.has(key) && !reportedContainers.has(key)) {
+        reportedContainers.add(key);
+        diagnostics.push({
+          line: row.sourceRow,
+          severity: 'warning',
+          message: `${key} continues after other lessons in Source Order; it is shown in separate parts`,
+          text: row.sourceText,
+        });
+      }
+      seenContainers.add(key);
+    });
+    previousSplitKey = splitKey;
+    previousUnitKey = unitKey;
+  });
   
-  // Re-number orders sequentially to ensure no gaps
-  lessons.forEach((lesson, index) => {
-    lesson.order = index + 1;
+  // Group consecutive lessons into Splits and Units; the lessons taken from the tree are numbered without gaps
+  const tree = buildTreeFromLessons(sortedLessons);
+  const lessons = extractLessons(tree);
+  lessons.forEach(lesson => {
+    const row = rowsByLessonId.get(lesson.id)!;
+    lesson.variant = row.variantIdentifier || undefined;
+    lesson.metadata = {
+      edgeExLessonId: row.edgeExLessonId,
+      alignmentIdentifier: row.alignmentIdentifier,
+      variantIdentifier: row.variantIdentifier,
+    };
+    if (Object.keys(row.fields).length > 0) {
+      lesson.fields = row.fields;
+    }
   });
   
   // Create version info
@@ -241,33 +315,31 @@ export function csvRowsToHierarchy(rows: CSVRow[]): Hierarchy {
     versions: [version],
     currentVersion: version,
     lessons,
+    tree,
   };
 }
 
 /**
- * Read file as text
+ * Read file as raw bytes
  */
-export function readFileAsText(file: File): Promise<string> {
+export function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       if (e.target?.result) {
-        resolve(e.target.result as string);
+        resolve(e.target.result as ArrayBuffer);
       } else {
         reject(new Error('Failed to read file'));
       }
     };
     reader.onerror = () => reject(new Error('Error reading file'));
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 }
 
 /**
- * Process uploaded CSV file
+ * Read file as text, detecting its encoding (UTF-8, UTF-16 or Windows-1252)
  */
-export async function processCSVFile(file: File): Promise<Hierarchy> {
-  const content = await readFileAsText(file);
-  const rows = parseCSV(content);
-  return csvRowsToHierarchy(rows);
+export async function readFileAsText(file: File): Promise<string> {
+  return decodeText(await readFileAsArrayBuffer(file));
 }
-
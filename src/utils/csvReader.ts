@@ -0,0 +1,195 @@
+/**
+ * CSV Reader Utility
+ * RFC 4180 CSV tokenizer used by every CSV import (course hierarchies, crosswalks)
+ * Handles quoted fields spanning multiple lines, escaped quotes, CRLF line endings and a
+ * leading byte order mark, detects comma/semicolon/tab delimiters and the file's text encoding
+ * Not a streaming reader: files are decoded to text in full, and imports collect every record
+ * (the column mapping step re-reads them when the mapping changes)
+ */
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export interface CSVRecord {
+  values: string[];
+  row: number; // 1-based record number, as a spreadsheet would show it
+  line: number; // 1-based line the record starts on (differs from row after multi-line fields)
+}
+
+const DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+const DETECTION_LINES = 10;
+
+const DELIMITER_NAMES: Record<CSVDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+};
+
+export const describeDelimiter = (delimiter: CSVDelimiter): string => DELIMITER_NAMES[delimiter];
+
+const stripBOM = (content: string): string =>
+  content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+/**
+ * Detect the delimiter from the first lines of the file (quoted text is ignored)
+ * Picks the candidate that appears most often on a single line; defaults to comma
+ */
+export function detectDelimiter(content: string): CSVDelimiter {
+  const text = stripBOM(content);
+  const best: Record<CSVDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let counts: Record<CSVDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+  let lines = 0;
+
+  const endLine = () => {
+    DELIMITERS.forEach(d => {
+      best[d] = Math.max(best[d], counts[d]);
+    });
+    counts = { ',': 0, ';': 0, '\t': 0 };
+    lines++;
+  };
+
+  for (let i = 0; i < text.length && lines < DETECTION_LINES; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes; // Escaped quotes toggle twice, which is harmless here
+    } else if (!inQuotes && char === '\n') {
+      endLine();
+    } else if (!inQuotes && (char === ',' || char === ';' || char === '\t')) {
+      counts[char]++;
+    }
+  }
+  endLine();
+
+  return DELIMITERS.reduce((winner, d) => (best[d] > best[winner] ? d : winner), ',' as CSVDelimiter);
+}
+
+/**
+ * Read CSV records one at a time
+ * Blank lines are skipped but still counted in row numbers; throws with the row and line on malformed quoting
+ */
+export function* readCSVRecords(content: string, delimiter: CSVDelimiter = detectDelimiter(content)): Generator<CSVRecord> {
+  const text = stripBOM(content);
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let afterQuote = false; // Just closed a quoted field; only whitespace may follow before the delimiter
+  let row = 1;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const location = (atLine: number) => `Row ${row} (line ${atLine})`;
+
+  const endField = () => {
+    values.push(field);
+    field = '';
+    afterQuote = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+          afterQuote = true;
+        }
+      } else if (char === '\r' && text[i + 1] === '\n') {
+        // Keep line breaks inside quoted fields, normalized to \n
+        field += '\n';
+        line++;
+        i++;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endField();
+      const isBlank = values.length === 1 && values[0] === '';
+      if (!isBlank) {
+        yield { values, row, line: recordLine };
+      }
+      values = [];
+      row++;
+      line++;
+      recordLine = line;
+    } else if (afterQuote) {
+      if (char !== ' ' && char !== '\t') {
+        throw new Error(`${location(line)}: Unexpected character '${char}' after closing quote; quotes inside a quoted field must be doubled ("")`);
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteLine = line;
+    } else {
+      // A quote in the middle of an unquoted field (e.g. 12" ruler) is kept as text
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`${location(quoteLine)}: Unterminated quoted field; the closing quote is missing`);
+  }
+
+  if (values.length > 0 || field !== '' || afterQuote) {
+    endField();
+    yield { values, row, line: recordLine };
+  }
+}
+
+/**
+ * Parse all CSV records into an array
+ */
+export function parseCSVRecords(content: string, delimiter?: CSVDelimiter): CSVRecord[] {
+  return Array.from(readCSVRecords(content, delimiter));
+}
+
+/**
+ * Quote a value for CSV output when it contains the delimiter, quotes or line breaks
+ */
+export function escapeCSVValue(value: string, delimiter: CSVDelimiter = ','): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Format one CSV row
+ */
+export function formatCSVRow(values: string[], delimiter: CSVDelimiter = ','): string {
+  return values.map(value => escapeCSVValue(value, delimiter)).join(delimiter);
+}
+
+/**
+ * Decode file bytes, detecting the encoding
+ * UTF-8/UTF-16 byte order marks are honored; otherwise strict UTF-8 is tried and
+ * Windows-1252 (Excel's default "CSV" encoding on Windows) is used when the bytes are not valid UTF-8
+ */
+export function decodeText(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(bytes);
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(bytes);
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
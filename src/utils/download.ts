@@ -0,0 +1,19 @@
+/**
+ * Download Utility
+ * Saves generated content (rules, exports, reports) as a file from the side panel
+ */
+
+/**
+ * Trigger a browser download for text content
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
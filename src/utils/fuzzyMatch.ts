@@ -0,0 +1,115 @@
+/**
+ * Fuzzy Title Matching Utility
+ * Scores title similarity (normalized tokens + edit distance) and proposes likely
+ * pairs for lessons that could not be aligned by identifier
+ */
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+const EDIT_WEIGHT = 0.7;
+const TOKEN_WEIGHT = 0.3;
+
+export interface FuzzyMatch<T> {
+  anchor: T;
+  compared: T;
+  score: number; // 0..1 similarity
+}
+
+/**
+ * Normalize a title for comparison: lowercase, drop apostrophes, collapse punctuation and whitespace
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/['’‘`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Dice coefficient over word tokens
+ */
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = a.split(' ').filter(Boolean);
+  const tokensB = b.split(' ').filter(Boolean);
+  if (tokensA.length === 0 && tokensB.length === 0) return 1;
+
+  const remaining = [...tokensB];
+  let shared = 0;
+  tokensA.forEach(token => {
+    const index = remaining.indexOf(token);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+/**
+ * Similarity between two titles (1 = identical after normalization)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const normalizedA = normalizeTitle(a);
+  const normalizedB = normalizeTitle(b);
+  if (normalizedA === normalizedB) return 1;
+
+  const maxLength = Math.max(normalizedA.length, normalizedB.length);
+  const editSimilarity = maxLength === 0 ? 1 : 1 - editDistance(normalizedA, normalizedB) / maxLength;
+  // Edit distance dominates so plurals and typos stay close; shared words break ties
+  return EDIT_WEIGHT * editSimilarity + TOKEN_WEIGHT * tokenSimilarity(normalizedA, normalizedB);
+}
+
+/**
+ * Propose one-to-one pairs between unaligned items, best scores first
+ * Pairs for which isExcluded returns true (e.g. rejected by the user) are never proposed
+ */
+export function proposeFuzzyMatches<T>(
+  anchorItems: T[],
+  comparedItems: T[],
+  getTitle: (item: T) => string,
+  threshold: number = DEFAULT_FUZZY_THRESHOLD,
+  isExcluded: (anchor: T, compared: T) => boolean = () => false
+): FuzzyMatch<T>[] {
+  const candidates: FuzzyMatch<T>[] = [];
+  anchorItems.forEach(anchor => {
+    comparedItems.forEach(compared => {
+      if (isExcluded(anchor, compared)) return;
+      const score = titleSimilarity(getTitle(anchor), getTitle(compared));
+      if (score >= threshold) {
+        candidates.push({ anchor, compared, score });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedAnchors = new Set<T>();
+  const usedCompared = new Set<T>();
+  return candidates.filter(candidate => {
+    if (usedAnchors.has(candidate.anchor) || usedCompared.has(candidate.compared)) return false;
+    usedAnchors.add(candidate.anchor);
+    usedCompared.add(candidate.compared);
+    return true;
+  });
+}
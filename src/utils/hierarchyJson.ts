@@ -0,0 +1,290 @@
+/**
+ * Hierarchy JSON Utility
+ * Saves a parsed Hierarchy (lessons and their children metadata) as a versioned JSON file and
+ * loads it back into any upload or paste slot
+ *
+ * Schema versions:
+ * - 0: a bare Hierarchy object with no envelope
+ * - 1: { version: 1, exportedAt, hierarchy }, lesson structure stored in lesson metadata
+ * - 2: typed lesson fields (type, splitTitle, unitTitle, children) and the hierarchy tree
+ * Older files are migrated forward one version at a time before they are validated
+ */
+
+import { Hierarchy, HierarchyFile, HierarchyType, ImplementationModel } from '../types';
+import { buildTreeFromLessons } from './hierarchyTree';
+
+export const HIERARCHY_FILE_VERSION = 2;
+
+const HIERARCHY_TYPES: HierarchyType[] = ['course', 'assessment-bundle', 'TIM-pathway', 'TIM-bundle', 'hierarchy-lesson'];
+
+const IMPLEMENTATION_MODELS: ImplementationModel[] = ['IC', 'CR', 'Honors'];
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Migration from each schema version to the next one
+ */
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  // Hand-written bare hierarchies often leave out the type and version list
+  0: file => ({
+    version: 1,
+    hierarchy: { type: 'course', versions: [], ...file },
+  }),
+  // Structure moves out of lesson metadata into typed fields; the tree is rebuilt after validation
+  1: file => {
+    const hierarchy = file.hierarchy;
+    if (!isObject(hierarchy) || !Array.isArray(hierarchy.lessons)) {
+      return { ...file, version: 2 };
+    }
+    return {
+      ...file,
+      version: 2,
+      hierarchy: { ...hierarchy, lessons: hierarchy.lessons.map(migrateLessonMetadata) },
+    };
+  },
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Version 1 lesson -> version 2: metadata.type/splitTitle/unitTitle/children become lesson fields
+ */
+function migrateLessonMetadata(lesson: unknown): unknown {
+  if (!isObject(lesson) || !isObject(lesson.metadata)) return lesson;
+
+  // originalId always repeated the lesson ID; parentSplit/parentUnit repeated the titles
+  const { type, splitTitle, parentSplit, unitTitle, parentUnit, children, ...rest } = lesson.metadata;
+  delete rest.originalId;
+  return {
+    ...lesson,
+    type,
+    splitTitle: splitTitle || parentSplit || undefined,
+    unitTitle: unitTitle || parentUnit || undefined,
+    children: Array.isArray(children)
+      ? children.map((child, index) => (isObject(child) ? { children: [], ...child, order: index + 1 } : child))
+      : undefined,
+    metadata: Object.keys(rest).length > 0 ? rest : undefined,
+  };
+}
+
+/**
+ * Schema version of a parsed file; objects without the envelope are version 0
+ */
+function getFileVersion(file: JsonObject): number {
+  if (!('hierarchy' in file)) {
+    return 0;
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+    throw new Error('"version" must be a positive whole number');
+  }
+  return file.version;
+}
+
+/**
+ * Bring a parsed file up to the current schema version
+ */
+function migrateHierarchyFile(file: JsonObject): JsonObject {
+  let version = getFileVersion(file);
+  if (version > HIERARCHY_FILE_VERSION) {
+    throw new Error(
+      `Hierarchy file version ${version} is newer than the supported version ${HIERARCHY_FILE_VERSION}; update the extension to load it`
+    );
+  }
+
+  let migrated = file;
+  while (version < HIERARCHY_FILE_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version = getFileVersion(migrated);
+  }
+  return migrated;
+}
+
+function validateVersion(version: unknown, label: string): string[] {
+  if (!isObject(version)) {
+    return [`${label}: must be an object`];
+  }
+  const errors: string[] = [];
+  ['versionId', 'versionNumber', 'createdAt'].forEach(field => {
+    if (typeof version[field] !== 'string') {
+      errors.push(`${label}: "${field}" must be a string`);
+    }
+  });
+  if (typeof version.isLatest !== 'boolean') {
+    errors.push(`${label}: "isLatest" must be true or false`);
+  }
+  return errors;
+}
+
+function validateNodes(nodes: unknown, label: string): string[] {
+  if (!Array.isArray(nodes)) {
+    return [`${label}: must be a list`];
+  }
+  return nodes.flatMap((node, index) => {
+    const nodeLabel = `${label} ${index + 1}`;
+    if (!isObject(node)) {
+      return [`${nodeLabel}: must be an object`];
+    }
+    const errors: string[] = [];
+    ['id', 'title', 'type'].forEach(field => {
+      if (typeof node[field] !== 'string') {
+        errors.push(`${nodeLabel}: "${field}" must be a string`);
+      }
+    });
+    if (typeof node.order !== 'number' || !Number.isFinite(node.order)) {
+      errors.push(`${nodeLabel}: "order" must be a number`);
+    }
+    errors.push(...validateNodes(node.children, `${nodeLabel} child`));
+    return errors;
+  });
+}
+
+function validateLesson(lesson: unknown, index: number): string[] {
+  const label = `Lesson ${index + 1}`;
+  if (!isObject(lesson)) {
+    return [`${label}: must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (typeof lesson.id !== 'string' || !lesson.id.trim()) {
+    errors.push(`${label}: "id" must be a non-empty string`);
+  }
+  if (typeof lesson.title !== 'string') {
+    errors.push(`${label}: "title" must be a string`);
+  }
+  if (typeof lesson.order !== 'number' || !Number.isFinite(lesson.order)) {
+    errors.push(`${label}: "order" must be a number`);
+  }
+  ['variant', 'type', 'splitTitle', 'unitTitle'].forEach(field => {
+    if (lesson[field] !== undefined && typeof lesson[field] !== 'string') {
+      errors.push(`${label}: "${field}" must be a string`);
+    }
+  });
+  if (lesson.children !== undefined) {
+    errors.push(...validateNodes(lesson.children, `${label} child`));
+  }
+  if (lesson.metadata !== undefined && !isObject(lesson.metadata)) {
+    errors.push(`${label}: "metadata" must be an object`);
+  }
+  if (lesson.fields !== undefined && (!isObject(lesson.fields) || Object.values(lesson.fields).some(value => typeof value !== 'string'))) {
+    errors.push(`${label}: "fields" must be an object of strings`);
+  }
+  return errors;
+}
+
+/**
+ * Validate a hierarchy object, returning a list of problems
+ */
+function validateHierarchy(hierarchy: unknown): string[] {
+  if (!isObject(hierarchy)) {
+    return ['"hierarchy" must be an object'];
+  }
+
+  const errors: string[] = [];
+  ['id', 'name'].forEach(field => {
+    if (typeof hierarchy[field] !== 'string' || !(hierarchy[field] as string).trim()) {
+      errors.push(`Hierarchy: "${field}" must be a non-empty string`);
+    }
+  });
+  ['courseId', 'subject'].forEach(field => {
+    if (hierarchy[field] !== undefined && typeof hierarchy[field] !== 'string') {
+      errors.push(`Hierarchy: "${field}" must be a string`);
+    }
+  });
+  if (!HIERARCHY_TYPES.includes(hierarchy.type as HierarchyType)) {
+    errors.push(`Hierarchy: "type" must be one of ${HIERARCHY_TYPES.join(', ')}`);
+  }
+  if (hierarchy.implementationModel !== undefined &&
+      !IMPLEMENTATION_MODELS.includes(hierarchy.implementationModel as ImplementationModel)) {
+    errors.push(`Hierarchy: "implementationModel" must be one of ${IMPLEMENTATION_MODELS.join(', ')}`);
+  }
+
+  if (!Array.isArray(hierarchy.versions)) {
+    errors.push('Hierarchy: "versions" must be a list');
+  } else {
+    hierarchy.versions.forEach((version, index) => {
+      errors.push(...validateVersion(version, `Version ${index + 1}`));
+    });
+  }
+  if (hierarchy.currentVersion !== undefined) {
+    errors.push(...validateVersion(hierarchy.currentVersion, 'Current version'));
+  }
+
+  if (hierarchy.lessons !== undefined) {
+    if (!Array.isArray(hierarchy.lessons)) {
+      errors.push('Hierarchy: "lessons" must be a list');
+    } else {
+      hierarchy.lessons.forEach((lesson, index) => {
+        errors.push(...validateLesson(lesson, index));
+      });
+    }
+  }
+  if (hierarchy.tree !== undefined) {
+    errors.push(...validateNodes(hierarchy.tree, 'Tree node'));
+  }
+  return errors;
+}
+
+/**
+ * Parse, migrate and validate a hierarchy file from JSON text
+ */
+export function parseHierarchyFile(content: string): Hierarchy {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error('Hierarchy file must contain a JSON object');
+  }
+
+  const file = migrateHierarchyFile(parsed);
+  const errors = validateHierarchy(file.hierarchy);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const hierarchy = file.hierarchy as Hierarchy;
+  if (!hierarchy.tree && hierarchy.lessons) {
+    hierarchy.tree = buildTreeFromLessons(hierarchy.lessons);
+  }
+  return hierarchy;
+}
+
+/**
+ * A saved file keeps its hierarchy ID, and slots are told apart by ID, so the same file imported
+ * into two slots would compare the course with nothing. A taken ID gets the slot label as suffix
+ */
+export function withUniqueHierarchyId(hierarchy: Hierarchy, takenIds: string[], slotLabel: string): Hierarchy {
+  if (!takenIds.includes(hierarchy.id)) {
+    return hierarchy;
+  }
+  const slug = slotLabel.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'copy';
+  let id = `${hierarchy.id}-${slug}`;
+  for (let count = 2; takenIds.includes(id); count++) {
+    id = `${hierarchy.id}-${slug}-${count}`;
+  }
+  return { ...hierarchy, id };
+}
+
+/**
+ * Serialize a hierarchy to the current file format
+ */
+export function serializeHierarchyFile(hierarchy: Hierarchy): string {
+  const file: HierarchyFile = {
+    version: HIERARCHY_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    hierarchy,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * File name for an exported hierarchy, based on its name
+ */
+export function getHierarchyFileName(hierarchy: Hierarchy): string {
+  const slug = hierarchy.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'hierarchy'}.hierarchy.json`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Hierarchy Tree Utility
+ * Builds the typed content tree (Split -> Unit -> Lesson -> Activity/Quiz) shared by the parsers,
+ * derives the flat lesson list used for comparison from it, and reads the Splits and Units
+ * holding each lesson back out of it for the structure comparison and the unit headers
+ */
+
+import { Hierarchy, HierarchyNode, Lesson } from '../types';
+import { DEFAULT_NODE_TYPES, getLessonTypes } from './nodeTypes';
+
+/**
+ * Create a node without children
+ */
+export function createNode(id: string, title: string, type: string): HierarchyNode {
+  return { id, title, type, order: 0, children: [] };
+}
+
+/**
+ * Append a node to a parent's children (or the root list), numbering it within its siblings
+ */
+export function appendNode(siblings: HierarchyNode[], node: HierarchyNode): HierarchyNode {
+  node.order = siblings.length + 1;
+  siblings.push(node);
+  return node;
+}
+
+/**
+ * Flatten the tree into lessons (nodes of the given lesson types), numbered in tree order
+ * Lessons keep the titles of their Split and Unit, and share their child nodes with the tree
+ */
+export function extractLessons(tree: HierarchyNode[], lessonTypes: string[] = getLessonTypes(DEFAULT_NODE_TYPES)): Lesson[] {
+  const lessons: Lesson[] = [];
+
+  const visit = (nodes: HierarchyNode[], splitTitle?: string, unitTitle?: string) => {
+    nodes.forEach(node => {
+      if (node.type === 'Split') {
+        visit(node.children, node.title, unitTitle);
+      } else if (node.type === 'Unit') {
+        visit(node.children, splitTitle, node.title);
+      } else if (lessonTypes.includes(node.type)) {
+        lessons.push({
+          id: node.id,
+          title: node.title,
+          order: lessons.length + 1,
+          // Tests, Exams and other lesson-like types are shown as variants of a regular lesson
+          variant: node.type !== 'EdgeEx Lesson' ? node.type : undefined,
+          type: node.type,
+          splitTitle,
+          unitTitle,
+          children: node.children,
+        });
+      } else {
+        // Other containers may still hold lessons further down
+        visit(node.children, splitTitle, unitTitle);
+      }
+    });
+  };
+
+  visit(tree);
+  return lessons;
+}
+
+/**
+ * Build the tree for lessons that only record their Split and Unit titles (CSV reports, older saved files)
+ * Lessons keep their order: each run of consecutive lessons in the same Split or Unit gets its own node,
+ * so a Unit whose lessons are interrupted by another Unit appears once per run
+ */
+export function buildTreeFromLessons(lessons: Lesson[]): HierarchyNode[] {
+  const roots: HierarchyNode[] = [];
+  let split: HierarchyNode | null = null;
+  let unit: HierarchyNode | null = null;
+
+  lessons.forEach(lesson => {
+    if ((split?.title || '') !== (lesson.splitTitle || '')) {
+      split = lesson.splitTitle ? appendNode(roots, createNode(lesson.splitTitle, lesson.splitTitle, 'Split')) : null;
+      unit = null;
+    }
+    if (!unit || unit.title !== (lesson.unitTitle || '')) {
+      const siblings = split ? split.children : roots;
+      unit = lesson.unitTitle ? appendNode(siblings, createNode(lesson.unitTitle, lesson.unitTitle, 'Unit')) : null;
+    }
+
+    const siblings = unit ? unit.children : split ? split.children : roots;
+    const node = appendNode(siblings, createNode(lesson.id, lesson.title, lesson.type || 'EdgeEx Lesson'));
+    node.children = lesson.children || [];
+  });
+
+  return roots;
+}
+
+/**
+ * A Split or Unit node of the tree with the hierarchy's lessons inside it
+ * (a lesson belongs to its innermost Split and innermost Unit only)
+ */
+export interface StructureContainer {
+  node: HierarchyNode;
+  split?: HierarchyNode; // Split the container is in (units only)
+  lessons: Lesson[];
+}
+
+export interface HierarchyStructure {
+  splits: StructureContainer[];
+  units: StructureContainer[];
+}
+
+/**
+ * Splits and Units of a hierarchy in tree order, empty ones included, with the lessons they hold
+ * Tree nodes are matched to the hierarchy's lessons by ID, in order; hierarchies without a tree
+ * use the one rebuilt from their lessons' Split and Unit titles
+ */
+export function getHierarchyStructure(hierarchy: Hierarchy): HierarchyStructure {
+  const lessons = hierarchy.lessons || [];
+  const tree = hierarchy.tree || buildTreeFromLessons(lessons);
+  const lessonsById = new Map<string, Lesson[]>();
+  lessons.forEach(lesson => {
+    lessonsById.set(lesson.id, [...(lessonsById.get(lesson.id) || []), lesson]);
+  });
+
+  const structure: HierarchyStructure = { splits: [], units: [] };
+
+  const visit = (nodes: HierarchyNode[], split?: StructureContainer, unit?: StructureContainer) => {
+    nodes.forEach(node => {
+      if (node.type === 'Split') {
+        const container: StructureContainer = { node, lessons: [] };
+        structure.splits.push(container);
+        visit(node.children, container, undefined);
+      } else if (node.type === 'Unit') {
+        const container: StructureContainer = { node, split: split?.node, lessons: [] };
+        structure.units.push(container);
+        visit(node.children, split, container);
+      } else {
+        const lesson = lessonsById.get(node.id)?.shift();
+        if (lesson) {
+          split?.lessons.push(lesson);
+          unit?.lessons.push(lesson);
+        } else {
+          // Other containers may still hold lessons further down
+          visit(node.children, split, unit);
+        }
+      }
+    });
+  };
+
+  visit(tree);
+  return structure;
+}
+
+/**
+ * Split and Unit node holding each lesson of a hierarchy, from its tree
+ */
+export function getLessonPlacements(hierarchy: Hierarchy): Map<Lesson, { split?: HierarchyNode; unit?: HierarchyNode }> {
+  const { splits, units } = getHierarchyStructure(hierarchy);
+  const placements = new Map<Lesson, { split?: HierarchyNode; unit?: HierarchyNode }>();
+  splits.forEach(container => {
+    container.lessons.forEach(lesson => placements.set(lesson, { split: container.node }));
+  });
+  units.forEach(container => {
+    container.lessons.forEach(lesson => placements.set(lesson, { ...placements.get(lesson), unit: container.node }));
+  });
+  return placements;
+}
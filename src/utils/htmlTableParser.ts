@@ -0,0 +1,123 @@
+/**
+ * HTML Table Parser Utility
+ * Reads the hierarchy table the authoring tool puts on the clipboard as text/html
+ * Cell boundaries give the Title, Type and ID columns (titles may contain any spacing),
+ * and the indentation of the title cell gives each row's depth in the hierarchy
+ */
+
+import { TextRow } from './textParser';
+
+const LEVEL_ATTRIBUTES = ['aria-level', 'data-level', 'data-depth'];
+const INDENT_PROPERTIES = ['paddingLeft', 'marginLeft', 'textIndent'] as const;
+// Width of one leading non-breaking space, used when the indentation is typed out
+const SPACE_WIDTH_PX = 4;
+
+interface ColumnIndexes {
+  title: number;
+  type: number; // -1 when the table has no Type column
+  id: number; // -1 when the table has no ID column
+}
+
+const normalizeCellText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * CSS length in pixels (px, pt, em/rem at 16px); 0 when missing or unsupported
+ */
+function toPixels(length: string): number {
+  const match = length.trim().match(/^(-?[\d.]+)(px|pt|r?em)?$/);
+  if (!match) return 0;
+  const value = parseFloat(match[1]);
+  if (match[2] === 'pt') return value * 4 / 3;
+  if (match[2] === 'em' || match[2] === 'rem') return value * 16;
+  return value;
+}
+
+/**
+ * Indentation of a row: an explicit level attribute, else the inline indent of the title cell
+ * and the elements leading into its text, plus leading non-breaking spaces
+ */
+function getRowIndent(row: HTMLTableRowElement, cell: Element): number {
+  for (const element of [row, cell]) {
+    for (const attribute of LEVEL_ATTRIBUTES) {
+      const level = parseInt(element.getAttribute(attribute) || '', 10);
+      if (!isNaN(level)) return level;
+    }
+  }
+
+  let indent = 0;
+  let element: Element | null = cell;
+  while (element) {
+    const style = (element as HTMLElement).style;
+    if (style) {
+      INDENT_PROPERTIES.forEach(property => {
+        indent += toPixels(style[property] || '');
+      });
+    }
+    element = element.firstElementChild;
+  }
+
+  // Collapsible whitespace does not render, so only non-breaking spaces indent the text
+  const leadingSpaces = ((cell.textContent || '').match(/^\s*/)?.[0].match(/\u00a0/g) || []).length;
+  return indent + leadingSpaces * SPACE_WIDTH_PX;
+}
+
+/**
+ * Column positions from a header row (cells named Title, Type and ID), or null when the row is data
+ */
+function findColumns(cells: string[]): ColumnIndexes | null {
+  const names = cells.map(cell => cell.toLowerCase());
+  const title = names.findIndex(name => name === 'title' || name === 'name');
+  const type = names.findIndex(name => name === 'type');
+  const id = names.findIndex(name => name === 'id' || name.endsWith(' id'));
+  return title !== -1 && (type !== -1 || id !== -1) ? { title, type, id } : null;
+}
+
+/**
+ * Parse the largest table in clipboard HTML into rows
+ * Returns null when the HTML has no table with data rows
+ */
+export function parseHTMLTable(html: string): TextRow[] | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const tables = Array.from(doc.querySelectorAll('table'));
+  if (tables.length === 0) return null;
+  const table = tables.reduce((largest, candidate) => (candidate.rows.length > largest.rows.length ? candidate : largest));
+
+  const tableRows = Array.from(table.rows)
+    .map(row => ({ row, cells: Array.from(row.cells) }))
+    .filter(({ cells }) => cells.some(cell => normalizeCellText(cell.textContent || '')));
+  if (tableRows.length === 0) return null;
+
+  // Without a header, columns follow the pasted text layout: Title, Type, ID
+  const headerColumns = findColumns(tableRows[0].cells.map(cell => normalizeCellText(cell.textContent || '')));
+  const columns: ColumnIndexes = headerColumns || { title: 0, type: 1, id: 2 };
+  const dataRows = headerColumns ? tableRows.slice(1) : tableRows;
+
+  const rows: TextRow[] = [];
+  const indents: number[] = [];
+  dataRows.forEach(({ row, cells }) => {
+    const cellText = (index: number) => (index !== -1 && cells[index] ? normalizeCellText(cells[index].textContent || '') : '');
+    const title = cellText(columns.title);
+    if (!title) return;
+
+    // Missing types and IDs are filled in (and reported) by textRowsToHierarchy
+    rows.push({
+      title,
+      type: cellText(columns.type),
+      id: cellText(columns.id),
+      line: row.rowIndex + 1,
+      text: cells.map(cell => normalizeCellText(cell.textContent || '')).join('\t'),
+    });
+    indents.push(cells[columns.title] ? getRowIndent(row, cells[columns.title]) : 0);
+  });
+  if (rows.length === 0) return null;
+
+  // Distinct indents become depths 0, 1, 2, ...; a table without indentation has no depths
+  const levels = Array.from(new Set(indents)).sort((a, b) => a - b);
+  if (levels.length > 1) {
+    rows.forEach((row, index) => {
+      row.depth = levels.indexOf(indents[index]);
+    });
+  }
+
+  return rows;
+}
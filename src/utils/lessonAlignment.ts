@@ -0,0 +1,311 @@
+/**
+ * Lesson Alignment
+ * Single source of truth for which anchor lesson corresponds to which compared lesson
+ * Used by the comparison engine and every view/export so they all report the same matches
+ * Matching order: crosswalk, exact ID, base ID (course prefix stripped), exact title,
+ * pairings accepted by the user, then fuzzy title suggestions
+ * Children (Activities/Quizzes) of matched lessons are aligned by ID, and the lessons' extra CSV columns compared by header
+ */
+
+import {
+  ChildChange,
+  ChildComparison,
+  CrosswalkEntry,
+  FieldChange,
+  Lesson,
+  LessonComparison,
+  MatchDecision,
+} from '../types';
+import { analyzeOrder } from './orderAnalysis';
+import { DEFAULT_FUZZY_THRESHOLD, proposeFuzzyMatches, titleSimilarity } from './fuzzyMatch';
+import { getCrosswalkIds } from './crosswalk';
+
+export interface AlignmentOptions {
+  crosswalk?: CrosswalkEntry[];
+  fuzzyThreshold?: number;
+  matchDecisions?: Record<string, MatchDecision>;
+}
+
+/**
+ * Key identifying a proposed anchor/compared pairing
+ */
+export const getPairKey = (anchorLesson: Lesson, comparedLesson: Lesson): string =>
+  `${anchorLesson.id}::${comparedLesson.id}`;
+
+// Extract base lesson ID for matching (removes course prefix)
+const getBaseLessonId = (lessonId: string): string => {
+  // Extract the base ID after the first hyphen (e.g., "ic-lesson-1" -> "lesson-1")
+  const parts = lessonId.split('-');
+  if (parts.length >= 3 && parts[1] === 'lesson') {
+    // For pattern like "ic-lesson-1", return "lesson-1"
+    return parts.slice(1).join('-');
+  }
+  // For new lessons (e.g., "cr-new-1"), return a unique identifier
+  if (lessonId.includes('-new-')) {
+    return `new-${lessonId}`; // Make it unique so it doesn't match
+  }
+  return lessonId;
+};
+
+/**
+ * Align anchor lessons with compared lessons
+ * Returns rows in display order: anchor order, with added lessons inserted where they appear in the compared course
+ */
+export function alignLessons(
+  anchorLessons: Lesson[],
+  comparedLessons: Lesson[],
+  options: AlignmentOptions = {}
+): LessonComparison[] {
+  const crosswalk = options.crosswalk || [];
+  const fuzzyThreshold = options.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD;
+  const matchDecisions = options.matchDecisions || {};
+
+  const matches = new Map<Lesson, { comparedLesson: Lesson; score?: number; state?: 'suggested' | 'accepted' }>();
+  const matchedCompared = new Set<Lesson>();
+
+  // Each strategy runs across all anchor lessons before the next, weaker one,
+  // so a weak match never takes a compared lesson that a stronger one would claim
+  const matchBy = (isMatch: (anchorLesson: Lesson, comparedLesson: Lesson) => boolean) => {
+    anchorLessons.forEach(anchorLesson => {
+      if (matches.has(anchorLesson)) return;
+      const match = comparedLessons.find(lesson => !matchedCompared.has(lesson) && isMatch(anchorLesson, lesson));
+      if (match) {
+        matches.set(anchorLesson, { comparedLesson: match });
+        matchedCompared.add(match);
+      }
+    });
+  };
+
+  // Crosswalk links IDs that differ between implementation models
+  if (crosswalk.length > 0) {
+    const linkedIds = new Map(anchorLessons.map(lesson => [lesson, getCrosswalkIds(crosswalk, lesson.id)]));
+    matchBy((anchorLesson, comparedLesson) => linkedIds.get(anchorLesson)!.has(comparedLesson.id));
+  }
+  // Exact ID match (for pasted data and CSV data with exact IDs)
+  matchBy((anchorLesson, comparedLesson) => comparedLesson.id === anchorLesson.id);
+  // Base ID match (for CSV data with prefixed IDs)
+  matchBy((anchorLesson, comparedLesson) => getBaseLessonId(comparedLesson.id) === getBaseLessonId(anchorLesson.id));
+  // Exact title (for lessons with same content but different IDs)
+  matchBy((anchorLesson, comparedLesson) => comparedLesson.title === anchorLesson.title);
+
+  // Pairings the user accepted
+  anchorLessons.forEach(anchorLesson => {
+    if (matches.has(anchorLesson)) return;
+    const accepted = comparedLessons.find(lesson =>
+      !matchedCompared.has(lesson) && matchDecisions[getPairKey(anchorLesson, lesson)] === 'accepted'
+    );
+    if (accepted) {
+      matches.set(anchorLesson, {
+        comparedLesson: accepted,
+        score: titleSimilarity(anchorLesson.title, accepted.title),
+        state: 'accepted',
+      });
+      matchedCompared.add(accepted);
+    }
+  });
+
+  // Fuzzy title suggestions for whatever is left (never re-proposing rejected pairs)
+  proposeFuzzyMatches(
+    anchorLessons.filter(lesson => !matches.has(lesson)),
+    comparedLessons.filter(lesson => !matchedCompared.has(lesson)),
+    lesson => lesson.title,
+    fuzzyThreshold,
+    (anchorLesson, comparedLesson) => matchDecisions[getPairKey(anchorLesson, comparedLesson)] === 'rejected'
+  ).forEach(match => {
+    matches.set(match.anchor, { comparedLesson: match.compared, score: match.score, state: 'suggested' });
+    matchedCompared.add(match.compared);
+  });
+
+  const comparisons: LessonComparison[] = anchorLessons.map(anchorLesson => {
+    const match = matches.get(anchorLesson);
+    if (!match) {
+      // Lesson removed from compared course
+      return {
+        anchorLesson,
+        comparedLesson: null,
+        status: 'removed',
+        anchorOrder: anchorLesson.order,
+        comparedOrder: null,
+      };
+    }
+    return {
+      anchorLesson,
+      comparedLesson: match.comparedLesson,
+      status: match.state === 'suggested' ? 'suggested' : 'same', // Order changes are resolved below
+      anchorOrder: anchorLesson.order,
+      comparedOrder: match.comparedLesson.order,
+      matchScore: match.score,
+      matchState: match.state,
+    };
+  });
+
+  // Only lessons outside the longest in-order run of matches count as moved
+  const matched = comparisons.filter(comp => comp.comparedOrder !== null && comp.status !== 'suggested');
+  analyzeOrder(matched.map(comp => ({
+    anchorOrder: comp.anchorOrder,
+    comparedOrder: comp.comparedOrder!,
+  }))).forEach((order, index) => {
+    if (order.moved) {
+      matched[index].status = 'order-changed';
+      matched[index].placesMoved = order.placesMoved;
+    }
+  });
+
+  // Find lessons added in compared course (not in anchor)
+  const addedLessons: LessonComparison[] = comparedLessons
+    .filter(comparedLesson => !matchedCompared.has(comparedLesson))
+    .map(comparedLesson => ({
+      anchorLesson: null,
+      comparedLesson,
+      status: 'added',
+      anchorOrder: 0,
+      comparedOrder: comparedLesson.order,
+    }));
+
+  // Sort comparisons by anchor order (matched lessons)
+  comparisons.sort((a, b) => {
+    if (a.anchorOrder !== b.anchorOrder) {
+      return a.anchorOrder - b.anchorOrder;
+    }
+    return (a.comparedOrder || 0) - (b.comparedOrder || 0);
+  });
+
+  // Insert added lessons at their correct position based on compared order
+  addedLessons.sort((a, b) => (a.comparedOrder || 0) - (b.comparedOrder || 0));
+  addedLessons.forEach(addedLesson => {
+    const addedOrder = addedLesson.comparedOrder || 0;
+
+    // Insert before the first row whose compared order is greater, so added lessons
+    // appear in the same order as in the compared course
+    const insertIndex = comparisons.findIndex(comp => comp.comparedOrder !== null && comp.comparedOrder > addedOrder);
+    if (insertIndex === -1) {
+      comparisons.push(addedLesson);
+    } else {
+      comparisons.splice(insertIndex, 0, addedLesson);
+    }
+  });
+
+  return comparisons;
+}
+
+/**
+ * Anchor → compared lesson pairs that count as matched (suggestions excluded until accepted)
+ */
+export function getMatchedPairs(alignment: LessonComparison[]): Map<Lesson, Lesson> {
+  const pairs = new Map<Lesson, Lesson>();
+  alignment.forEach(comp => {
+    if (comp.anchorLesson && comp.comparedLesson && comp.status !== 'suggested') {
+      pairs.set(comp.anchorLesson, comp.comparedLesson);
+    }
+  });
+  return pairs;
+}
+
+/**
+ * Number of alignment rows per lesson status
+ */
+export function countLessonStatuses(alignment: LessonComparison[]): Record<LessonComparison['status'], number> {
+  const counts = { same: 0, 'order-changed': 0, removed: 0, added: 0, suggested: 0 };
+  alignment.forEach(comp => {
+    counts[comp.status]++;
+  });
+  return counts;
+}
+
+/**
+ * Align the children of two lessons by ID
+ * Either lesson may be null (removed/added lesson), in which case every child is removed/added
+ * Matched children report order changes (outside the longest in-order run), type changes and title changes
+ */
+export function alignLessonChildren(anchorLesson: Lesson | null, comparedLesson: Lesson | null): ChildComparison[] {
+  const anchorChildren = anchorLesson?.children || [];
+  const comparedChildren = comparedLesson?.children || [];
+  const comparedPositions = new Map(comparedChildren.map((child, index) => [child.id, index + 1]));
+  const matchedIds = new Set<string>();
+
+  const comparisons: ChildComparison[] = anchorChildren.map((anchorChild, index) => {
+    const comparedPosition = comparedPositions.get(anchorChild.id) ?? null;
+    const comparedChild = comparedPosition !== null ? comparedChildren[comparedPosition - 1] : null;
+    if (!comparedChild) {
+      return {
+        anchorChild,
+        comparedChild: null,
+        status: 'removed',
+        changes: [],
+        anchorPosition: index + 1,
+        comparedPosition: null,
+      };
+    }
+
+    matchedIds.add(comparedChild.id);
+    const changes: ChildChange[] = [];
+    if (anchorChild.type !== comparedChild.type) changes.push('type');
+    if (anchorChild.title !== comparedChild.title) changes.push('title');
+    return {
+      anchorChild,
+      comparedChild,
+      status: changes.length > 0 ? 'changed' : 'same',
+      changes,
+      anchorPosition: index + 1,
+      comparedPosition,
+    };
+  });
+
+  // Same minimal-move rule as lessons: only children outside the longest in-order run moved
+  const matched = comparisons.filter(comp => comp.comparedPosition !== null);
+  analyzeOrder(matched.map(comp => ({
+    anchorOrder: comp.anchorPosition!,
+    comparedOrder: comp.comparedPosition!,
+  }))).forEach((order, index) => {
+    if (order.moved) {
+      matched[index].status = 'changed';
+      matched[index].changes.unshift('order');
+    }
+  });
+
+  // Insert added children before the first row that comes later in the compared lesson
+  comparedChildren.forEach((comparedChild, index) => {
+    if (matchedIds.has(comparedChild.id)) return;
+    const added: ChildComparison = {
+      anchorChild: null,
+      comparedChild,
+      status: 'added',
+      changes: [],
+      anchorPosition: null,
+      comparedPosition: index + 1,
+    };
+    const insertIndex = comparisons.findIndex(comp => comp.comparedPosition !== null && comp.comparedPosition > index + 1);
+    if (insertIndex === -1) {
+      comparisons.push(added);
+    } else {
+      comparisons.splice(insertIndex, 0, added);
+    }
+  });
+
+  return comparisons;
+}
+
+/**
+ * Extra column headers found on the lessons, in order of first appearance
+ */
+export function getLessonFieldNames(lessons: Lesson[]): string[] {
+  const names = new Set<string>();
+  lessons.forEach(lesson => {
+    Object.keys(lesson.fields || {}).forEach(name => names.add(name));
+  });
+  return Array.from(names);
+}
+
+/**
+ * Extra columns whose values differ between two matched lessons
+ * Only columns both lessons have are compared (a column missing from one file is not lesson drift);
+ * pass fieldNames to narrow the comparison to chosen columns
+ */
+export function compareLessonFields(anchorLesson: Lesson, comparedLesson: Lesson, fieldNames?: string[]): FieldChange[] {
+  const anchorFields = anchorLesson.fields || {};
+  const comparedFields = comparedLesson.fields || {};
+  return (fieldNames || Object.keys(anchorFields))
+    .filter(field => field in anchorFields && field in comparedFields)
+    .filter(field => anchorFields[field] !== comparedFields[field])
+    .map(field => ({ field, anchorValue: anchorFields[field], comparedValue: comparedFields[field] }));
+}
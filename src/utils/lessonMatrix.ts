@@ -0,0 +1,94 @@
+/**
+ * Lesson Matrix Utility
+ * Combines the lesson alignments of every compared hierarchy into one grid:
+ * one row per lesson, one column per hierarchy (anchor first), showing presence and position
+ */
+
+import { ComparisonResult, Hierarchy, Lesson, LessonComparison } from '../types';
+
+export interface LessonMatrixCell {
+  lesson: Lesson;
+  order: number;
+  status: LessonComparison['status'] | 'anchor';
+}
+
+export interface LessonMatrixRow {
+  key: string;
+  title: string;
+  cells: Array<LessonMatrixCell | null>; // Same order as the matrix columns; null = not present
+}
+
+export interface LessonMatrix {
+  columns: Hierarchy[]; // Anchor first, then compared hierarchies in result order
+  rows: LessonMatrixRow[];
+}
+
+/**
+ * Build the presence/position matrix from the anchor and the engine's comparison results
+ * Lessons missing from the anchor, and the compared side of unaccepted suggested matches, are grouped
+ * across hierarchies by ID, then by title, and placed after the anchor lesson they follow in the
+ * first hierarchy that has them
+ */
+export function buildLessonMatrix(
+  anchor: Hierarchy,
+  comparedHierarchies: Hierarchy[],
+  comparisonResults: ComparisonResult[]
+): LessonMatrix {
+  const columns = [anchor, ...comparedHierarchies];
+  const anchorRows = new Map<Lesson, LessonMatrixRow>();
+  const extraRows: Array<{ row: LessonMatrixRow; after: Lesson | null }> = [];
+
+  const anchorLessons = [...(anchor.lessons || [])].sort((a, b) => a.order - b.order);
+  anchorLessons.forEach(lesson => {
+    const cells: Array<LessonMatrixCell | null> = new Array(columns.length).fill(null);
+    cells[0] = { lesson, order: lesson.order, status: 'anchor' };
+    anchorRows.set(lesson, { key: `anchor-${lesson.id}`, title: lesson.title, cells });
+  });
+
+  comparedHierarchies.forEach((hierarchy, index) => {
+    const column = index + 1;
+    const result = comparisonResults.find(r => r.hierarchyId === hierarchy.id);
+    if (!result) return;
+
+    let previousAnchorLesson: Lesson | null = null;
+    result.lessonAlignment.forEach(comp => {
+      if (comp.anchorLesson) {
+        previousAnchorLesson = comp.anchorLesson;
+        // A suggested pair is not a match until accepted, so its compared lesson gets its own row
+        if (comp.status !== 'suggested') {
+          const row = anchorRows.get(comp.anchorLesson);
+          if (row && comp.comparedLesson) {
+            row.cells[column] = { lesson: comp.comparedLesson, order: comp.comparedLesson.order, status: comp.status };
+          }
+          return;
+        }
+      }
+
+      // Lesson not in the anchor: reuse a row another hierarchy already added for it
+      const lesson = comp.comparedLesson!;
+      const existing = extraRows.find(extra => {
+        const other = extra.row.cells.find((cell): cell is LessonMatrixCell => cell !== null);
+        return !extra.row.cells[column] && !!other && (other.lesson.id === lesson.id || other.lesson.title === lesson.title);
+      });
+      const cell: LessonMatrixCell = { lesson, order: lesson.order, status: comp.status === 'suggested' ? 'suggested' : 'added' };
+      if (existing) {
+        existing.row.cells[column] = cell;
+      } else {
+        const cells: Array<LessonMatrixCell | null> = new Array(columns.length).fill(null);
+        cells[column] = cell;
+        extraRows.push({
+          row: { key: `extra-${hierarchy.id}-${lesson.id}`, title: lesson.title, cells },
+          after: previousAnchorLesson,
+        });
+      }
+    });
+  });
+
+  const rows: LessonMatrixRow[] = extraRows.filter(extra => extra.after === null).map(extra => extra.row);
+  anchorLessons.forEach(lesson => {
+    rows.push(anchorRows.get(lesson)!);
+    extraRows.filter(extra => extra.after === lesson).forEach(extra => rows.push(extra.row));
+  });
+
+  return { columns, rows };
+}
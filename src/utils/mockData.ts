@@ -228,9 +228,11 @@ export const mockComparisonResults: ComparisonResult[] = [
         lessonTitle: 'Quadratic Equations',
         expectedOrder: 15,
         actualOrder: 16,
+        placesMoved: 1,
         hierarchyId: 'h1',
       },
     ],
+    lessonAlignment: [],
   },
   {
     hierarchyId: 'h2',
@@ -257,6 +259,7 @@ export const mockComparisonResults: ComparisonResult[] = [
     ],
     metadataIssues: [],
     lessonOrderIssues: [],
+    lessonAlignment: [],
   },
 ];
 
@@ -0,0 +1,132 @@
+/**
+ * Node Type Vocabulary
+ * Defines how the text parser builds the hierarchy tree: for each node type, the types it can
+ * be placed under, whether it is compared as a lesson, and whether it can have children
+ * The vocabulary is edited in the side panel and persisted locally
+ */
+
+import { NodeTypeDefinition, NodeTypeVocabulary } from '../types';
+
+export const NODE_TYPE_VOCABULARY_VERSION = 1;
+
+const STORAGE_KEY = 'course-comparison.nodeTypes';
+
+/**
+ * Default vocabulary: Split -> Unit -> EdgeEx Lesson/Test -> Activity/Quiz, plus Split -> Exam
+ */
+export const DEFAULT_NODE_TYPES: NodeTypeDefinition[] = [
+  { type: 'Split', parentTypes: [], isLesson: false, isLeaf: false },
+  { type: 'Unit', parentTypes: ['Split'], isLesson: false, isLeaf: false },
+  { type: 'EdgeEx Lesson', parentTypes: ['Unit', 'Split'], isLesson: true, isLeaf: false },
+  { type: 'Test', parentTypes: ['Unit', 'Split'], isLesson: true, isLeaf: false },
+  { type: 'Exam', parentTypes: ['Split'], isLesson: true, isLeaf: true },
+  // Quizzes under a Test belong to the Test; without a lesson or Test they stay in the Unit
+  { type: 'Activity', parentTypes: ['Test', 'EdgeEx Lesson', 'Unit'], isLesson: false, isLeaf: true },
+  { type: 'Quiz', parentTypes: ['Test', 'EdgeEx Lesson', 'Unit'], isLesson: false, isLeaf: true },
+];
+
+/**
+ * Types compared as top-level lessons
+ */
+export function getLessonTypes(nodeTypes: NodeTypeDefinition[]): string[] {
+  return nodeTypes.filter(definition => definition.isLesson).map(definition => definition.type);
+}
+
+/**
+ * Validate a vocabulary, returning a list of problems
+ */
+export function validateNodeTypes(nodeTypes: unknown): string[] {
+  if (!Array.isArray(nodeTypes)) {
+    return ['Node types must be a list'];
+  }
+
+  const errors: string[] = [];
+  const names = nodeTypes.map(definition => (definition as NodeTypeDefinition | null)?.type);
+
+  nodeTypes.forEach((definition, index) => {
+    const label = `Type ${index + 1}`;
+    if (!definition || typeof definition !== 'object') {
+      errors.push(`${label}: must be an object`);
+      return;
+    }
+
+    const d = definition as Record<string, unknown>;
+    if (typeof d.type !== 'string' || !d.type.trim()) {
+      errors.push(`${label}: "type" must be a non-empty string`);
+    }
+    if (!Array.isArray(d.parentTypes) || d.parentTypes.some(parent => typeof parent !== 'string')) {
+      errors.push(`${label}: "parentTypes" must be a list of type names`);
+    } else {
+      d.parentTypes
+        .filter(parent => !names.includes(parent as string))
+        .forEach(parent => errors.push(`${label}: parent type "${parent}" is not defined`));
+    }
+    (['isLesson', 'isLeaf'] as const).forEach(field => {
+      if (typeof d[field] !== 'boolean') {
+        errors.push(`${label}: "${field}" must be true or false`);
+      }
+    });
+  });
+
+  const duplicates = names.filter((name, index) => typeof name === 'string' && names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate types: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a vocabulary from JSON text
+ * Accepts either { version, types: [...] } or a bare array of type definitions
+ */
+export function parseNodeTypeVocabulary(content: string): NodeTypeDefinition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const nodeTypes = Array.isArray(parsed) ? parsed : (parsed as NodeTypeVocabulary | null)?.types;
+  const errors = validateNodeTypes(nodeTypes);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  return nodeTypes as NodeTypeDefinition[];
+}
+
+/**
+ * Serialize node types to the JSON vocabulary format
+ */
+export function serializeNodeTypeVocabulary(nodeTypes: NodeTypeDefinition[]): string {
+  const vocabulary: NodeTypeVocabulary = { version: NODE_TYPE_VOCABULARY_VERSION, types: nodeTypes };
+  return JSON.stringify(vocabulary, null, 2);
+}
+
+/**
+ * Load the persisted vocabulary, falling back to the defaults
+ */
+export function loadNodeTypes(): NodeTypeDefinition[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return parseNodeTypeVocabulary(stored);
+    }
+  } catch (err) {
+    console.warn('Ignoring invalid stored node types:', err);
+  }
+  return DEFAULT_NODE_TYPES;
+}
+
+/**
+ * Persist the vocabulary locally, or clear it to restore the defaults
+ */
+export function saveNodeTypes(nodeTypes: NodeTypeDefinition[] | null): void {
+  if (nodeTypes) {
+    localStorage.setItem(STORAGE_KEY, serializeNodeTypeVocabulary(nodeTypes));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
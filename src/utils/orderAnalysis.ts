@@ -0,0 +1,78 @@
+/**
+ * Order Analysis Utility
+ * Finds the lessons that genuinely moved between two hierarchies
+ * Uses the longest common subsequence of matched lessons: everything in it kept its
+ * relative order, everything outside it is the minimal set of lessons that moved
+ */
+
+export interface OrderedPair {
+  anchorOrder: number;
+  comparedOrder: number;
+}
+
+export interface OrderAnalysis {
+  moved: boolean;
+  placesMoved: number; // Number of in-order lessons the moved lesson jumped over
+}
+
+/**
+ * Indices of the longest strictly increasing subsequence of values
+ */
+function longestIncreasingSubsequence(values: number[]): Set<number> {
+  const tails: number[] = []; // tails[k] = index of the smallest tail of an increasing run of length k + 1
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    if (low > 0) {
+      previous[index] = tails[low - 1];
+    }
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  let current = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (current !== -1) {
+    result.add(current);
+    current = previous[current];
+  }
+  return result;
+}
+
+/**
+ * Analyze order of matched lesson pairs
+ * Returns one entry per pair (in the order given) telling whether it moved and how far
+ */
+export function analyzeOrder(pairs: OrderedPair[]): OrderAnalysis[] {
+  // Walk pairs in anchor order; the compared orders of in-place lessons form an increasing run
+  const byAnchor = pairs
+    .map((pair, index) => ({ ...pair, index }))
+    .sort((a, b) => a.anchorOrder - b.anchorOrder);
+  const inOrder = longestIncreasingSubsequence(byAnchor.map(pair => pair.comparedOrder));
+  const stable = byAnchor.filter((_, position) => inOrder.has(position));
+
+  const analysis: OrderAnalysis[] = new Array(pairs.length);
+  byAnchor.forEach((pair, position) => {
+    if (inOrder.has(position)) {
+      analysis[pair.index] = { moved: false, placesMoved: 0 };
+      return;
+    }
+
+    // Count in-order lessons whose relative position to this lesson flipped
+    const placesMoved = stable.filter(other =>
+      (other.anchorOrder < pair.anchorOrder) !== (other.comparedOrder < pair.comparedOrder)
+    ).length;
+    analysis[pair.index] = { moved: true, placesMoved: Math.max(placesMoved, 1) };
+  });
+
+  return analysis;
+}
@@ -0,0 +1,102 @@
+/**
+ * Presence Utility
+ * Classifies every lesson in the lesson matrix by which hierarchies contain it
+ * ("In all", "In IC + Honors only", "CR only", ...) with counts per category and per unit
+ */
+
+import { Hierarchy } from '../types';
+import { LessonMatrix, LessonMatrixCell, LessonMatrixRow } from './lessonMatrix';
+
+export interface PresenceCategory {
+  key: string; // One character per matrix column: '1' present, '0' missing
+  label: string;
+  hierarchyIds: string[];
+  rows: LessonMatrixRow[];
+}
+
+export interface UnitPresence {
+  key: string; // Split and unit, so same-named units in different semesters stay apart
+  split: string; // '' when the lesson has no Split
+  unit: string;
+  counts: Record<string, number>; // Category key -> lesson count
+  total: number;
+}
+
+export interface PresenceSummary {
+  categories: PresenceCategory[];
+  units: UnitPresence[];
+}
+
+const NO_UNIT = 'No Unit';
+
+/**
+ * Short column names: the implementation model when it is unique among the columns, else the course name
+ */
+export function getPresenceLabels(columns: Hierarchy[]): string[] {
+  return columns.map(hierarchy => {
+    const model = hierarchy.implementationModel;
+    const isUnique = !!model && columns.filter(other => other.implementationModel === model).length === 1;
+    return isUnique ? model! : hierarchy.name;
+  });
+}
+
+function describeCategory(labels: string[], present: boolean[]): string {
+  const names = labels.filter((_, index) => present[index]);
+  if (names.length === labels.length) return 'In all';
+  if (names.length === 1) return `${names[0]} only`;
+  return `In ${names.join(' + ')} only`;
+}
+
+function getRowUnit(row: LessonMatrixRow): { split: string; unit: string } {
+  const cell = row.cells.find((c): c is LessonMatrixCell => c !== null);
+  return { split: cell?.lesson.splitTitle || '', unit: cell?.lesson.unitTitle || NO_UNIT };
+}
+
+/**
+ * Group matrix rows by presence pattern
+ * Categories are ordered "In all" first, then by how many hierarchies share them, then by column order
+ */
+export function summarizePresence(matrix: LessonMatrix): PresenceSummary {
+  const labels = getPresenceLabels(matrix.columns);
+  const categories = new Map<string, PresenceCategory>();
+  const units = new Map<string, UnitPresence>();
+
+  matrix.rows.forEach(row => {
+    const present = row.cells.map(cell => cell !== null);
+    const key = present.map(p => (p ? '1' : '0')).join('');
+
+    let category = categories.get(key);
+    if (!category) {
+      category = {
+        key,
+        label: describeCategory(labels, present),
+        hierarchyIds: matrix.columns.filter((_, index) => present[index]).map(h => h.id),
+        rows: [],
+      };
+      categories.set(key, category);
+    }
+    category.rows.push(row);
+
+    const { split, unit: unitTitle } = getRowUnit(row);
+    const unitKey = `${split}\u0000${unitTitle}`;
+    let unit = units.get(unitKey);
+    if (!unit) {
+      unit = { key: unitKey, split, unit: unitTitle, counts: {}, total: 0 };
+      units.set(unitKey, unit);
+    }
+    unit.counts[key] = (unit.counts[key] || 0) + 1;
+    unit.total++;
+  });
+
+  const sortedCategories = Array.from(categories.values()).sort((a, b) => {
+    if (a.hierarchyIds.length !== b.hierarchyIds.length) {
+      return b.hierarchyIds.length - a.hierarchyIds.length;
+    }
+    return b.key.localeCompare(a.key); // Earlier columns first
+  });
+
+  return {
+    categories: sortedCategories,
+    units: Array.from(units.values()),
+  };
+}
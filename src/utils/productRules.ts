@@ -0,0 +1,333 @@
+/**
+ * Product Rules Engine
+ * Evaluates declarative product rule definitions against a hierarchy's lessons and children
+ * Produces ProductRuleViolation records with the offending lessons, semester and counts
+ * Rule definitions are loaded from JSON and persisted locally in the side panel
+ */
+
+import {
+  Hierarchy,
+  ImplementationModel,
+  Lesson,
+  ProductRuleDefinition,
+  ProductRuleSet,
+  ProductRuleViolation,
+} from '../types';
+import defaultRuleSet from './defaultProductRules.json';
+
+export const PRODUCT_RULE_SET_VERSION = 1;
+
+export const DEFAULT_PRODUCT_RULES: ProductRuleDefinition[] = (defaultRuleSet as ProductRuleSet).rules;
+
+const STORAGE_KEY = 'course-comparison.productRules';
+
+const IMPLEMENTATION_MODELS: ImplementationModel[] = ['IC', 'CR', 'Honors'];
+
+/**
+ * A countable piece of course content (a lesson or one of its children)
+ */
+interface ContentItem {
+  id: string;
+  title: string;
+  type: string;
+  lessonId?: string; // Set on children: the lesson holding them
+  lessonTitle: string;
+  semester: string;
+}
+
+/**
+ * Get product rules that apply to a subject (and optionally an implementation model)
+ */
+export function getSubjectRules(
+  rules: ProductRuleDefinition[],
+  subject: string,
+  implementationModel?: ImplementationModel
+): ProductRuleDefinition[] {
+  return rules.filter(rule =>
+    rule.subject.toLowerCase() === subject.toLowerCase() &&
+    (implementationModel === undefined || appliesToModel(rule, implementationModel))
+  );
+}
+
+function appliesToModel(rule: ProductRuleDefinition, implementationModel?: ImplementationModel): boolean {
+  if (!rule.implementationModels || rule.implementationModels.length === 0) return true;
+  return !!implementationModel && rule.implementationModels.includes(implementationModel);
+}
+
+/**
+ * Flatten lessons and their children (Activities/Quizzes) into countable items
+ */
+function collectContentItems(lessons: Lesson[]): ContentItem[] {
+  const items: ContentItem[] = [];
+
+  lessons.forEach(lesson => {
+    const semester = lesson.splitTitle || 'Course';
+    items.push({
+      id: lesson.id,
+      title: lesson.title,
+      type: lesson.type || 'Lesson',
+      lessonTitle: lesson.title,
+      semester,
+    });
+
+    (lesson.children || []).forEach(child => {
+      items.push({
+        id: child.id,
+        title: child.title,
+        type: child.type,
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        semester,
+      });
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Items counted by a rule: matching child type or title pattern, minus exclusions
+ * A child that only matches the title pattern and shares its lesson's title is the same piece of
+ * content as the lesson (e.g. a "Unit Test" lesson holding a "Unit Test" item), so a matched lesson
+ * is counted once
+ */
+function matchItems(items: ContentItem[], rule: ProductRuleDefinition): ContentItem[] {
+  const types = (rule.count.childTypes || []).map(type => type.toLowerCase());
+  const pattern = rule.count.titlePattern ? new RegExp(rule.count.titlePattern, 'i') : null;
+  const exclude = rule.count.excludeTitlePattern ? new RegExp(rule.count.excludeTitlePattern, 'i') : null;
+  const matchesType = (item: ContentItem) => types.includes(item.type.toLowerCase());
+
+  const matched = items.filter(item => {
+    const matchesPattern = !!pattern && (pattern.test(item.title) || pattern.test(item.type));
+    if (!matchesType(item) && !matchesPattern) return false;
+    return !exclude || !(exclude.test(item.title) || exclude.test(item.type));
+  });
+
+  const matchedLessons = new Set(matched.filter(item => !item.lessonId).map(item => item.id));
+  return matched.filter(item =>
+    !item.lessonId ||
+    matchesType(item) ||
+    !matchedLessons.has(item.lessonId) ||
+    item.title.toLowerCase() !== item.lessonTitle.toLowerCase()
+  );
+}
+
+/**
+ * Group matched items by counting scope, keeping every semester of the course (even those without matches)
+ */
+function groupByScope(
+  allItems: ContentItem[],
+  matched: ContentItem[],
+  scope: ProductRuleDefinition['count']['scope']
+): Map<string, ContentItem[]> {
+  if (scope === 'course') {
+    return new Map([['Course', matched]]);
+  }
+
+  const bySemester = new Map<string, ContentItem[]>();
+  allItems.forEach(item => {
+    if (!bySemester.has(item.semester)) {
+      bySemester.set(item.semester, []);
+    }
+  });
+  matched.forEach(item => {
+    bySemester.get(item.semester)?.push(item);
+  });
+  return bySemester;
+}
+
+/**
+ * Describe items as "Title" (in Lesson) for violation details
+ */
+function describeItems(items: ContentItem[], limit: number = 5): string {
+  const described = items.slice(0, limit).map(item =>
+    item.lessonTitle && item.lessonTitle !== item.title
+      ? `"${item.title}" (in ${item.lessonTitle})`
+      : `"${item.title}"`
+  );
+  if (items.length > limit) {
+    described.push(`and ${items.length - limit} more`);
+  }
+  return described.join(', ');
+}
+
+/**
+ * Evaluate all product rules that apply to a hierarchy
+ */
+export function evaluateProductRules(
+  hierarchy: Hierarchy,
+  rules: ProductRuleDefinition[] = DEFAULT_PRODUCT_RULES
+): ProductRuleViolation[] {
+  const applicableRules = getSubjectRules(rules, hierarchy.subject || '')
+    .filter(rule => appliesToModel(rule, hierarchy.implementationModel));
+  const items = collectContentItems(hierarchy.lessons || []);
+  const violations: ProductRuleViolation[] = [];
+
+  applicableRules.forEach(rule => {
+    const { min, max } = rule.threshold;
+    const groups = groupByScope(items, matchItems(items, rule), rule.count.scope);
+
+    groups.forEach((groupItems, groupName) => {
+      const count = groupItems.length;
+      const prefix = rule.count.scope === 'split' ? `${groupName}: ` : '';
+      let details: string | null = null;
+
+      if (max !== undefined && count > max) {
+        details = `${prefix}found ${count}, allowed at most ${max}`;
+      } else if (min !== undefined && count < min) {
+        details = `${prefix}found ${count}, required at least ${min}`;
+      }
+
+      if (details) {
+        if (count > 0) {
+          details += `: ${describeItems(groupItems)}`;
+        }
+        violations.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          ruleDescription: rule.description,
+          hierarchyId: hierarchy.id,
+          hierarchyName: hierarchy.name,
+          severity: rule.severity,
+          details,
+        });
+      }
+    });
+  });
+
+  return violations;
+}
+
+/**
+ * Validate a single rule definition, returning a list of problems
+ */
+function validateRule(rule: unknown, index: number): string[] {
+  const errors: string[] = [];
+  const label = `Rule ${index + 1}`;
+
+  if (!rule || typeof rule !== 'object') {
+    return [`${label}: must be an object`];
+  }
+
+  const r = rule as Record<string, unknown>;
+  ['id', 'name', 'description', 'subject'].forEach(field => {
+    if (typeof r[field] !== 'string' || !(r[field] as string).trim()) {
+      errors.push(`${label}: "${field}" must be a non-empty string`);
+    }
+  });
+
+  if (r.implementationModels !== undefined) {
+    if (!Array.isArray(r.implementationModels) ||
+        r.implementationModels.some(model => !IMPLEMENTATION_MODELS.includes(model as ImplementationModel))) {
+      errors.push(`${label}: "implementationModels" must be a list of ${IMPLEMENTATION_MODELS.join(', ')}`);
+    }
+  }
+
+  const count = r.count as Record<string, unknown> | undefined;
+  if (!count || typeof count !== 'object') {
+    errors.push(`${label}: "count" is required`);
+  } else {
+    if (count.scope !== 'course' && count.scope !== 'split') {
+      errors.push(`${label}: "count.scope" must be "course" or "split"`);
+    }
+    if (count.childTypes === undefined && count.titlePattern === undefined) {
+      errors.push(`${label}: "count" needs "childTypes" or "titlePattern"`);
+    }
+    if (count.childTypes !== undefined &&
+        (!Array.isArray(count.childTypes) || count.childTypes.some(type => typeof type !== 'string'))) {
+      errors.push(`${label}: "count.childTypes" must be a list of strings`);
+    }
+    (['titlePattern', 'excludeTitlePattern'] as const).forEach(field => {
+      if (count[field] === undefined) return;
+      try {
+        new RegExp(count[field] as string, 'i');
+      } catch {
+        errors.push(`${label}: "count.${field}" is not a valid regular expression`);
+      }
+    });
+  }
+
+  const threshold = r.threshold as Record<string, unknown> | undefined;
+  if (!threshold || typeof threshold !== 'object') {
+    errors.push(`${label}: "threshold" is required`);
+  } else {
+    if (threshold.min === undefined && threshold.max === undefined) {
+      errors.push(`${label}: "threshold" needs "min" or "max"`);
+    }
+    (['min', 'max'] as const).forEach(field => {
+      if (threshold[field] !== undefined && (typeof threshold[field] !== 'number' || (threshold[field] as number) < 0)) {
+        errors.push(`${label}: "threshold.${field}" must be a non-negative number`);
+      }
+    });
+  }
+
+  if (r.severity !== 'error' && r.severity !== 'warning') {
+    errors.push(`${label}: "severity" must be "error" or "warning"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse and validate a product rule set from JSON text
+ * Accepts either { version, rules: [...] } or a bare array of rules
+ */
+export function parseProductRuleSet(content: string): ProductRuleDefinition[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const rules = Array.isArray(parsed) ? parsed : (parsed as ProductRuleSet | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Rule file must contain a "rules" array');
+  }
+
+  const errors = rules.flatMap((rule, index) => validateRule(rule, index));
+  const ids = rules.map(rule => (rule as ProductRuleDefinition).id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    errors.push(`Duplicate rule IDs: ${Array.from(new Set(duplicates)).join(', ')}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+
+  return rules as ProductRuleDefinition[];
+}
+
+/**
+ * Serialize rules to the JSON rule set format
+ */
+export function serializeProductRuleSet(rules: ProductRuleDefinition[]): string {
+  const ruleSet: ProductRuleSet = { version: PRODUCT_RULE_SET_VERSION, rules };
+  return JSON.stringify(ruleSet, null, 2);
+}
+
+/**
+ * Load persisted rules, falling back to the default rules
+ */
+export function loadProductRules(): ProductRuleDefinition[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return parseProductRuleSet(stored);
+    }
+  } catch (err) {
+    console.warn('Ignoring invalid stored product rules:', err);
+  }
+  return DEFAULT_PRODUCT_RULES;
+}
+
+/**
+ * Persist rules locally, or clear them to restore the defaults
+ */
+export function saveProductRules(rules: ProductRuleDefinition[] | null): void {
+  if (rules) {
+    localStorage.setItem(STORAGE_KEY, serializeProductRuleSet(rules));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
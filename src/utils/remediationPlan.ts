@@ -0,0 +1,319 @@
+/**
+ * Remediation Plan Utility
+ * Turns a comparison into the authoring-tool edits that make the compared course match the anchor:
+ * rename, remove, add and move the semesters and units reported as structure differences, then
+ * rename lessons, remove extra ones, add missing ones, move the lessons reported as order issues,
+ * update differing extra columns, then the same for the Activities/Quizzes inside matched lessons
+ * Only lessons outside the longest in-order run are moved, so the plan uses the fewest moves;
+ * each add or move places the item after its anchor predecessor, so applying the steps in order
+ * leaves the anchor order
+ */
+
+import { ComparisonResult, Difference, Hierarchy, HierarchyNode, Lesson } from '../types';
+import { CSV_FIELDS, CSVField } from './columnMapping';
+import { formatCSVRow } from './csvReader';
+import { alignLessonChildren, compareLessonFields, getLessonFieldNames, getMatchedPairs } from './lessonAlignment';
+
+export interface RemediationStep {
+  action: 'review' | 'remove' | 'add' | 'move' | 'rename' | 'change-type' | 'update-field';
+  level: 'semester' | 'unit' | 'lesson' | 'child';
+  description: string;
+}
+
+const NOT_SET = 'Not Set Yet'; // Placeholder the parsers use for a missing subject
+
+const inUnit = (lesson: Lesson): string => (lesson.unitTitle ? ` in unit "${lesson.unitTitle}"` : '');
+
+// Where an added or moved item goes: after the previous anchor item, or first in its unit
+const placeLesson = (lesson: Lesson, previous: Lesson | null): string => {
+  if (previous && previous.unitTitle === lesson.unitTitle && previous.splitTitle === lesson.splitTitle) {
+    return `after "${previous.title}"${inUnit(lesson)}`;
+  }
+  return lesson.unitTitle ? `to the start of unit "${lesson.unitTitle}"` : previous ? `after "${previous.title}"` : 'to the start of the course';
+};
+
+const placeChild = (previous: HierarchyNode | null, lessonName: string): string =>
+  previous ? `after "${previous.title}" in ${lessonName}` : `to the start of ${lessonName}`;
+
+const inSplit = (splitTitle?: string): string => (splitTitle ? ` in semester "${splitTitle}"` : '');
+
+const getUnitKey = (splitTitle: string | undefined, unitTitle: string | undefined): string =>
+  `${splitTitle || ''}>${unitTitle || ''}`;
+
+/**
+ * Semester and unit steps from the structure differences, in the order to apply them:
+ * renames first (later steps use the anchor's titles), then removals, additions and unit moves;
+ * a unit whose lessons were merged into another one is added and its lessons moved back into it
+ * Added semesters and units are placed after the previous one in the anchor's lesson order
+ * Also tells which compared lessons go with a removed semester or unit, so they need no step of their own
+ */
+function getStructureSteps(result: ComparisonResult): { steps: RemediationStep[]; isRemovedLesson: (lesson: Lesson) => boolean } {
+  const steps: RemediationStep[] = [];
+  const removedSplits = new Set<string>();
+  const removedUnits = new Set<string>();
+  const matches = getMatchedPairs(result.lessonAlignment);
+  const anchorLessons = result.lessonAlignment
+    .map(comp => comp.anchorLesson)
+    .filter((lesson): lesson is Lesson => !!lesson);
+  const anchorSplits = Array.from(new Set(anchorLessons.map(lesson => lesson.splitTitle).filter(Boolean))) as string[];
+  // First lesson of each anchor unit, in anchor order
+  const anchorUnits: Lesson[] = [];
+  anchorLessons.forEach(lesson => {
+    const key = getUnitKey(lesson.splitTitle, lesson.unitTitle);
+    if (lesson.unitTitle && !anchorUnits.some(unit => getUnitKey(unit.splitTitle, unit.unitTitle) === key)) {
+      anchorUnits.push(lesson);
+    }
+  });
+
+  const placeSplit = (splitTitle: string): string => {
+    const index = anchorSplits.indexOf(splitTitle);
+    return index > 0 ? ` after semester "${anchorSplits[index - 1]}"` : index === 0 ? ' to the start of the course' : '';
+  };
+
+  const placeUnit = (splitTitle: string | undefined, unitTitle: string): string => {
+    const index = anchorUnits.findIndex(lesson => getUnitKey(lesson.splitTitle, lesson.unitTitle) === getUnitKey(splitTitle, unitTitle));
+    if (index === -1) return ''; // Units without lessons have no place in the lesson order
+    const previous = index > 0 ? anchorUnits[index - 1] : null;
+    if (previous && (previous.splitTitle || '') === (splitTitle || '')) {
+      return ` after unit "${previous.unitTitle}"${inSplit(splitTitle)}`;
+    }
+    return splitTitle ? ` to the start of semester "${splitTitle}"` : '';
+  };
+
+  const getUnitsOfSplit = (splitTitle: string): string[] =>
+    anchorUnits.filter(lesson => lesson.splitTitle === splitTitle).map(lesson => lesson.unitTitle!);
+
+  const structureDifferences = result.differences.filter(diff => diff.level === 'semester' || diff.level === 'unit');
+  const byLevel = (level: Difference['level'], type: Difference['type']) =>
+    structureDifferences.filter(diff => diff.level === level && diff.type === type);
+  const step = (action: RemediationStep['action'], level: 'semester' | 'unit', description: string) => {
+    steps.push({ action, level, description });
+  };
+
+  // Compared semester titles, by the anchor title they are renamed to
+  const renamedSplits = new Map<string, string>();
+
+  byLevel('semester', 'mismatch').forEach(diff => {
+    renamedSplits.set(diff.actualValue!, diff.expectedValue!);
+    step('rename', 'semester', `Rename semester "${diff.actualValue}" to "${diff.expectedValue}"`);
+  });
+  byLevel('semester', 'extra').forEach(diff => {
+    removedSplits.add(diff.actualValue!);
+    step('remove', 'semester', `Remove extra semester "${diff.actualValue}" and its lessons`);
+  });
+  byLevel('semester', 'missing').forEach(diff => {
+    const units = getUnitsOfSplit(diff.expectedValue!);
+    const withUnits = units.length > 0 ? ` with ${units.length === 1 ? 'unit' : 'units'} ${units.map(unit => `"${unit}"`).join(', ')}` : '';
+    step('add', 'semester', `Add semester "${diff.expectedValue}"${placeSplit(diff.expectedValue!)}${withUnits}`);
+  });
+
+  byLevel('unit', 'mismatch').forEach(diff => {
+    if (diff.actualValue !== diff.expectedValue) {
+      step('rename', 'unit', `Rename unit "${diff.actualValue}"${inSplit(diff.actualSplit)} to "${diff.expectedValue}"`);
+    }
+  });
+  byLevel('unit', 'extra').forEach(diff => {
+    removedUnits.add(getUnitKey(diff.actualSplit, diff.actualValue));
+    step('remove', 'unit', `Remove extra unit "${diff.actualValue}"${inSplit(diff.actualSplit)} and its lessons`);
+  });
+  byLevel('unit', 'missing').forEach(diff => {
+    step('add', 'unit', `Add unit "${diff.expectedValue}"${placeUnit(diff.expectedSplit, diff.expectedValue!) || inSplit(diff.expectedSplit)}`);
+    // Unit whose lessons were merged into another one: take them back out
+    if (diff.actualValue) {
+      const merged = anchorLessons
+        .filter(lesson => getUnitKey(lesson.splitTitle, lesson.unitTitle) === getUnitKey(diff.expectedSplit, diff.expectedValue))
+        .map(lesson => matches.get(lesson))
+        .filter((lesson): lesson is Lesson => !!lesson);
+      if (merged.length > 0) {
+        step(
+          'move',
+          'unit',
+          `Move ${merged.length === 1 ? 'lesson' : 'lessons'} ${merged.map(lesson => `"${lesson.title}"`).join(', ')} from unit "${diff.actualValue}"${inSplit(diff.actualSplit)} to unit "${diff.expectedValue}"`
+        );
+      }
+    }
+  });
+  byLevel('unit', 'mismatch').forEach(diff => {
+    if ((diff.actualSplit || '') !== (diff.expectedSplit || '')) {
+      const from = diff.actualSplit ? ` from semester "${diff.actualSplit}"` : '';
+      const to = placeUnit(diff.expectedSplit, diff.expectedValue!) || (diff.expectedSplit ? ` to semester "${diff.expectedSplit}"` : ' out of its semester');
+      step('move', 'unit', `Move unit "${diff.expectedValue}"${from}${to}`);
+    }
+  });
+
+  // Lessons are matched to removed groups by the compared course's titles, after the semester renames
+  const isRemovedLesson = (lesson: Lesson): boolean => {
+    const splitTitle = lesson.splitTitle ? renamedSplits.get(lesson.splitTitle) ?? lesson.splitTitle : undefined;
+    return (!!splitTitle && removedSplits.has(splitTitle))
+      || (!!lesson.unitTitle && removedUnits.has(getUnitKey(splitTitle, lesson.unitTitle)));
+  };
+  return { steps, isRemovedLesson };
+}
+
+function getChildSteps(anchorLesson: Lesson, comparedLesson: Lesson): RemediationStep[] {
+  const childComparisons = alignLessonChildren(anchorLesson, comparedLesson);
+  const steps: RemediationStep[] = [];
+  const step = (action: RemediationStep['action'], description: string) => {
+    steps.push({ action, level: 'child', description });
+  };
+  const lessonName = `lesson "${anchorLesson.title}"`;
+
+  childComparisons.forEach(comp => {
+    if (comp.status === 'added') {
+      step('remove', `Remove ${comp.comparedChild!.type} "${comp.comparedChild!.title}" from ${lessonName}`);
+    }
+  });
+
+  let previous: HierarchyNode | null = null;
+  childComparisons.forEach(comp => {
+    const anchorChild = comp.anchorChild;
+    if (!anchorChild) return;
+    if (comp.status === 'removed') {
+      step('add', `Add ${anchorChild.type} "${anchorChild.title}" ${placeChild(previous, lessonName)}`);
+    } else if (comp.changes.includes('order')) {
+      step('move', `Move ${comp.comparedChild!.type} "${comp.comparedChild!.title}" ${placeChild(previous, lessonName)}`);
+    }
+    previous = anchorChild;
+  });
+
+  childComparisons.forEach(comp => {
+    const { anchorChild, comparedChild } = comp;
+    if (comp.changes.includes('type')) {
+      step('change-type', `Change "${comparedChild!.title}" in ${lessonName} from ${comparedChild!.type} to ${anchorChild!.type}`);
+    }
+    if (comp.changes.includes('title')) {
+      step('rename', `Rename ${comparedChild!.type} "${comparedChild!.title}" in ${lessonName} to "${anchorChild!.title}"`);
+    }
+  });
+
+  return steps;
+}
+
+/**
+ * Steps that turn the compared course of a comparison result into the anchor course
+ * Semester and unit steps come first, so the lesson steps can place lessons in the anchor's units
+ * Suggested matches are not treated as matches until accepted, so they come first among the lesson steps
+ */
+export function buildRemediationPlan(result: ComparisonResult): RemediationStep[] {
+  const alignment = result.lessonAlignment;
+  const matches = getMatchedPairs(alignment);
+  const movedIds = new Set(result.lessonOrderIssues.map(issue => issue.lessonId));
+  const structure = getStructureSteps(result);
+  const steps: RemediationStep[] = [...structure.steps];
+  const step = (action: RemediationStep['action'], description: string) => {
+    steps.push({ action, level: 'lesson', description });
+  };
+
+  alignment.forEach(comp => {
+    if (comp.status === 'suggested') {
+      step(
+        'review',
+        `Review suggested match "${comp.anchorLesson!.title}" ↔ "${comp.comparedLesson!.title}"; accept it in Lesson Comparison to keep the lesson instead of replacing it`
+      );
+    }
+  });
+
+  // Renamed first, so the add and move steps can name anchor titles
+  matches.forEach((comparedLesson, anchorLesson) => {
+    if (comparedLesson.title !== anchorLesson.title) {
+      step('rename', `Rename lesson "${comparedLesson.title}" to "${anchorLesson.title}"`);
+    }
+  });
+
+  // Lessons only in the compared course (and unaccepted suggestions), unless their whole unit or semester goes
+  const matchedCompared = new Set(matches.values());
+  alignment.forEach(comp => {
+    const comparedLesson = comp.comparedLesson;
+    if (comparedLesson && !matchedCompared.has(comparedLesson) && !structure.isRemovedLesson(comparedLesson)) {
+      step('remove', `Remove extra lesson "${comparedLesson.title}"${inUnit(comparedLesson)}`);
+    }
+  });
+
+  let previous: Lesson | null = null;
+  alignment.forEach(comp => {
+    const anchorLesson = comp.anchorLesson;
+    if (!anchorLesson) return;
+    const comparedLesson = matches.get(anchorLesson);
+    if (!comparedLesson) {
+      step('add', `Add lesson "${anchorLesson.title}" ${placeLesson(anchorLesson, previous)}`);
+    } else if (movedIds.has(anchorLesson.id)) {
+      step('move', `Move "${anchorLesson.title}" ${placeLesson(anchorLesson, previous)}`);
+    }
+    previous = anchorLesson;
+  });
+
+  matches.forEach((comparedLesson, anchorLesson) => {
+    compareLessonFields(anchorLesson, comparedLesson).forEach(change => {
+      step('update-field', `Set ${change.field} of lesson "${anchorLesson.title}" to "${change.anchorValue}" (now "${change.comparedValue}")`);
+    });
+  });
+
+  matches.forEach((comparedLesson, anchorLesson) => {
+    steps.push(...getChildSteps(anchorLesson, comparedLesson));
+  });
+
+  return steps;
+}
+
+/**
+ * Plan as a Markdown checklist, one unchecked box per step
+ */
+export function serializeRemediationChecklist(anchor: Hierarchy, compared: Hierarchy, steps: RemediationStep[]): string {
+  return [
+    `# Remediation plan: ${compared.name} → ${anchor.name}`,
+    '',
+    ...(steps.length > 0 ? steps.map(step => `- [ ] ${step.description}`) : ['Nothing to change; the courses already match.']),
+  ].join('\n') + '\n';
+}
+
+/**
+ * The compared course after the plan is applied, as a hierarchy CSV that parseCSV reads
+ * Lessons follow the anchor's order, titles, Splits and Units; matched lessons keep the compared
+ * course's identifiers and extra columns (with the anchor's value where both have a column),
+ * missing lessons are taken from the anchor
+ * Children are not part of the CSV format
+ */
+export function serializeCorrectedCSV(anchor: Hierarchy, compared: Hierarchy, result: ComparisonResult): string {
+  const matches = getMatchedPairs(result.lessonAlignment);
+  const anchorLessons = [...(anchor.lessons || [])].sort((a, b) => a.order - b.order);
+  const sourceLessons = anchorLessons.map(anchorLesson => matches.get(anchorLesson) || anchorLesson);
+  const fieldNames = getLessonFieldNames(sourceLessons);
+  const headers = [...CSV_FIELDS.map(definition => definition.header), ...fieldNames];
+
+  const rows = anchorLessons.map((anchorLesson, index) => {
+    const source = sourceLessons[index];
+    const metadata = source.metadata;
+    const fields = { ...source.fields };
+    compareLessonFields(anchorLesson, source).forEach(change => {
+      fields[change.field] = change.anchorValue;
+    });
+    const values: Record<CSVField, string> = {
+      hierarchyId: compared.id,
+      hierarchyName: compared.name,
+      splitTitle: anchorLesson.splitTitle || '',
+      unitTitle: anchorLesson.unitTitle || '',
+      edgeExLessonId: metadata?.edgeExLessonId || '',
+      edgeExLessonTitle: '',
+      // Pasted lessons have no CSV identifiers; their ID becomes the Alignment Identifier
+      alignmentIdentifier: metadata ? metadata.alignmentIdentifier || '' : source.id,
+      variantIdentifier: metadata?.variantIdentifier || source.variant || '',
+      subject: compared.subject && compared.subject !== NOT_SET ? compared.subject : '',
+      title: anchorLesson.title,
+      sourceOrder: String(index + 1),
+    };
+    return [
+      ...CSV_FIELDS.map(definition => values[definition.field]),
+      ...fieldNames.map(name => fields[name] || ''),
+    ];
+  });
+
+  return [formatCSVRow(headers), ...rows.map(row => formatCSVRow(row))].join('\n') + '\n';
+}
+
+/**
+ * File name for a remediation export of the compared course
+ */
+export function getRemediationFileName(compared: Hierarchy, suffix: string): string {
+  const slug = compared.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'course'}-${suffix}`;
+}
@@ -2,48 +2,50 @@
  * Text Parser Utility
  * Parses tab-separated text pasted from clipboard and converts to Hierarchy objects
  * Handles hierarchical course data with Title, Type, and ID columns
- * Builds proper hierarchy: Split -> Unit -> Lesson -> Activity/Quiz
- * Also handles: Split -> Exam (Exam is child of Split, same level as Unit)
- * Only EdgeEx Lessons, Test (Type = Test), and Exam are top-level lessons; Activities/Quizzes are stored as children
+ * The node-type vocabulary (utils/nodeTypes.ts) decides where each type goes; the defaults build
+ * Split -> Unit -> Lesson -> Activity/Quiz and Split -> Exam (Exam is child of Split, same level as Unit)
+ * Lesson types (by default EdgeEx Lessons, Test (Type = Test), and Exam) are top-level lessons; their children stay inside them
+ * Rows that had to be guessed at (missing type or ID, unknown types, rows without a parent) are reported as diagnostics
  */
 
-import { Hierarchy, Lesson, HierarchyVersion, ImplementationModel } from '../types';
+import { Hierarchy, HierarchyNode, HierarchyVersion, ImplementationModel, NodeTypeDefinition, ParseDiagnostic } from '../types';
+import { appendNode, createNode, extractLessons } from './hierarchyTree';
+import { DEFAULT_NODE_TYPES, getLessonTypes } from './nodeTypes';
 
 export interface TextRow {
   title: string;
-  type: string;
-  id: string;
+  type: string; // Empty when the row has no Type value
+  id: string; // Empty when the row has no ID value
+  depth?: number; // Indentation level, when the source shows one (HTML tables from the authoring tool)
+  line: number; // 1-based line of the pasted text (or row of the pasted table)
+  text: string; // The row as pasted, for diagnostics
 }
 
-interface HierarchyNode {
-  title: string;
-  type: string;
-  id: string;
-  children: HierarchyNode[];
-  parent?: HierarchyNode;
+export interface TextParseResult {
+  hierarchy: Hierarchy;
+  diagnostics: ParseDiagnostic[];
 }
 
 /**
  * Parse tab-separated text content into rows
+ * Missing Type and ID values are left empty; textRowsToHierarchy fills them in and reports them
  */
 export function parseText(content: string): TextRow[] {
-  const lines = content.split('\n').filter(line => line.trim());
+  const lines = content.split('\n')
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line);
   
   if (lines.length === 0) {
     throw new Error('No data found in pasted text');
   }
   
   // Check if first line is a header
-  const firstLine = lines[0].toLowerCase();
+  const firstLine = lines[0].line.toLowerCase();
   const hasHeader = firstLine.includes('title') && firstLine.includes('type') && firstLine.includes('id');
   
-  const startIndex = hasHeader ? 1 : 0;
   const rows: TextRow[] = [];
   
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
+  lines.slice(hasHeader ? 1 : 0).forEach(({ line, lineNumber }) => {
     // Split by tab (preferred) or multiple spaces (fallback)
     let parts: string[];
     if (line.includes('\t')) {
@@ -57,160 +59,153 @@ export function parseText(content: string): TextRow[] {
     // Filter out empty parts
     parts = parts.filter(p => p);
     
-    if (parts.length >= 3) {
-      rows.push({
-        title: parts[0],
-        type: parts[1],
-        id: parts[2],
-      });
-    } else if (parts.length === 2) {
-      // Handle cases where ID might be missing - use a generated ID
+    if (parts.length > 0) {
       rows.push({
         title: parts[0],
-        type: parts[1],
-        id: `${parts[0]}-${parts[1]}-${rows.length}`,
+        type: parts[1] || '',
+        id: parts[2] || '',
+        line: lineNumber,
+        text: line,
       });
-    } else if (parts.length === 1 && parts[0]) {
+    }
+  });
+  
+  return rows;
+}
+
+/**
+ * Fill in missing types and IDs, reporting each guessed value
+ */
+function completeRows(rows: TextRow[], diagnostics: ParseDiagnostic[]): TextRow[] {
+  return rows.map((row, index) => {
+    const title = row.title.trim();
+    let type = row.type.trim();
+    let id = row.id.trim();
+    
+    if (!type) {
       // Single column - treat as title only
-      rows.push({
-        title: parts[0],
-        type: 'Unknown',
-        id: `item-${rows.length}`,
+      type = 'Unknown';
+      id = id || `item-${index}`;
+      diagnostics.push({
+        line: row.line,
+        severity: 'warning',
+        message: 'Only a title was found (expected Title, Type and ID separated by tabs); kept as an unknown item',
+        text: row.text,
+      });
+    } else if (!id) {
+      // Generated IDs do not match across courses, so this row is only matched by title
+      id = `${title}-${type}-${index}`;
+      diagnostics.push({
+        line: row.line,
+        severity: 'warning',
+        message: `No ID; generated "${id}", so the row is only matched by title`,
+        text: row.text,
       });
     }
+    
+    return { ...row, title, type, id };
+  });
+}
+
+/**
+ * Short stable hash of text (32-bit FNV-1a, base 36)
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
   }
-  
-  return rows;
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Closest preceding node (excluding the last, which is the row itself) indented less than the given depth
+ */
+function findIndentParent(indentedNodes: Array<{ node: HierarchyNode; depth: number }>, depth: number): HierarchyNode | undefined {
+  for (let i = indentedNodes.length - 2; i >= 0; i--) {
+    if (indentedNodes[i].depth < depth) {
+      return indentedNodes[i].node;
+    }
+  }
+  return undefined;
 }
 
 /**
  * Build hierarchical tree structure from flat rows
+ * Each row is placed under the first of its type's parent types that is still open; a row that can
+ * have children closes the rows below that parent and stays open for the rows that follow
+ * Rows copied from an indented table prefer their indentation parent when its type is one of their parent types
+ * Rows of types missing from the vocabulary are leaves under the current row (or their indentation parent)
  */
-function buildHierarchyTree(rows: TextRow[]): HierarchyNode[] {
+function buildHierarchyTree(
+  rows: TextRow[],
+  nodeTypes: NodeTypeDefinition[],
+  diagnostics: ParseDiagnostic[]
+): HierarchyNode[] {
+  const definitions = new Map(nodeTypes.map(definition => [definition.type, definition]));
+  const firstLineById = new Map<string, number>();
   const rootNodes: HierarchyNode[] = [];
+  // Open rows, outermost first
   const nodeStack: HierarchyNode[] = [];
+  // Nodes of indented rows, used to place rows whose type does not determine their parent
+  const indentedNodes: Array<{ node: HierarchyNode; depth: number }> = [];
   
   rows.forEach((row) => {
-    const node: HierarchyNode = {
-      title: row.title.trim(),
-      type: row.type.trim(),
-      id: row.id.trim(),
-      children: [],
+    const node = createNode(row.id, row.title, row.type);
+    if (row.depth !== undefined) {
+      indentedNodes.push({ node, depth: row.depth });
+    }
+    const report = (message: string) => {
+      diagnostics.push({ line: row.line, severity: 'warning', message, text: row.text });
     };
     
-    // Determine hierarchy level
-    if (node.type === 'Split') {
-      // Split is a root node
-      rootNodes.push(node);
-      nodeStack.length = 0; // Clear stack when new split starts
-      nodeStack.push(node);
-    } else if (node.type === 'Unit') {
-      // Unit is child of current Split
-      const parent = nodeStack.find(n => n.type === 'Split');
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-        // Remove any existing Unit and Lesson from stack (new unit means new lesson context)
-        // Keep only Split, then add new Unit
-        const splitNode = nodeStack.find(n => n.type === 'Split');
-        nodeStack.length = 0;
-        if (splitNode) nodeStack.push(splitNode);
-        nodeStack.push(node);
-      } else {
-        // No parent Split, treat as root
-        rootNodes.push(node);
-        nodeStack.length = 0;
-        nodeStack.push(node);
-      }
-    } else if (node.type === 'EdgeEx Lesson') {
-      // Lesson is child of current Unit (or Split if no Unit)
-      let parent = nodeStack.find(n => n.type === 'Unit');
-      if (!parent) {
-        parent = nodeStack.find(n => n.type === 'Split');
-      }
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-        // Remove any existing Lesson from stack, but keep Unit/Split
-        const lessonIndex = nodeStack.findIndex(n => n.type === 'EdgeEx Lesson');
-        if (lessonIndex !== -1) {
-          nodeStack.splice(lessonIndex, 1);
-        }
-        nodeStack.push(node);
-      } else {
-        // No parent, treat as root
-        rootNodes.push(node);
-        nodeStack.length = 0;
-        nodeStack.push(node);
-      }
-    } else if (node.type === 'Test') {
-      // Test (Type = Test) is child of current Unit (or Split if no Unit)
-      // This is different from Quiz which is a child of Test
-      let parent = nodeStack.find(n => n.type === 'Unit');
-      if (!parent) {
-        parent = nodeStack.find(n => n.type === 'Split');
-      }
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-        // Add Test to stack so Quiz can be its child
-        const testIndex = nodeStack.findIndex(n => n.type === 'Test');
-        if (testIndex !== -1) {
-          nodeStack.splice(testIndex, 1);
-        }
-        nodeStack.push(node);
-      } else {
-        // No parent, treat as root
-        rootNodes.push(node);
-        nodeStack.length = 0;
-        nodeStack.push(node);
-      }
-    } else if (node.type === 'Exam') {
-      // Exam is child of Split (same level as Unit)
-      const parent = nodeStack.find(n => n.type === 'Split');
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-        // Don't add to stack, Exam is a leaf node but will be extracted as a top-level lesson
-      } else {
-        // No parent Split, treat as root
-        rootNodes.push(node);
-      }
-    } else if (
-      node.type === 'Activity' ||
-      node.type === 'Quiz'
-    ) {
-      // Activity/Quiz can be child of EdgeEx Lesson or Test
-      // First try to find Test parent (for Quiz children of Test)
-      let parent = nodeStack.find(n => n.type === 'Test');
-      // If no Test parent, try EdgeEx Lesson
-      if (!parent) {
-        parent = nodeStack.find(n => n.type === 'EdgeEx Lesson');
-      }
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-        // Don't add to stack, these are leaf nodes
-      } else {
-        // No parent, try to attach to Unit as fallback
-        const unitParent = nodeStack.find(n => n.type === 'Unit');
-        if (unitParent) {
-          unitParent.children.push(node);
-          node.parent = unitParent;
-        } else {
-          rootNodes.push(node);
-        }
-      }
+    // Lessons are matched by ID, so a repeated ID makes the comparison ambiguous
+    const firstLine = firstLineById.get(node.id);
+    if (firstLine !== undefined) {
+      report(`Duplicate ID "${node.id}" (first used on line ${firstLine})`);
     } else {
-      // Unknown type - try to attach to current parent
-      const parent = nodeStack[nodeStack.length - 1];
-      if (parent) {
-        parent.children.push(node);
-        node.parent = parent;
-      } else {
-        rootNodes.push(node);
+      firstLineById.set(node.id, row.line);
+    }
+    
+    const definition = definitions.get(node.type);
+    if (!definition) {
+      // Unknown type - attach to the closest less-indented row, or to the current parent
+      const parent = row.depth !== undefined
+        ? findIndentParent(indentedNodes, row.depth)
+        : nodeStack[nodeStack.length - 1];
+      appendNode(parent ? parent.children : rootNodes, node);
+      // Rows without a type were already reported
+      if (node.type !== 'Unknown') {
+        report(`Unknown type "${node.type}"; kept as a child of ${parent ? `"${parent.title}"` : 'the course'}`);
+      }
+      return;
+    }
+    
+    // Indented rows go under their indentation parent when its type is allowed and it is still open
+    // (e.g. an Exam indented under the Split, not the open Unit); otherwise the preferred parent type
+    // comes first (e.g. a Quiz goes under a Test before an EdgeEx Lesson)
+    const indentParent = row.depth !== undefined ? findIndentParent(indentedNodes, row.depth) : undefined;
+    let parentIndex = indentParent && definition.parentTypes.includes(indentParent.type)
+      ? nodeStack.indexOf(indentParent)
+      : -1;
+    if (parentIndex === -1) {
+      for (const parentType of definition.parentTypes) {
+        parentIndex = nodeStack.findIndex(n => n.type === parentType);
+        if (parentIndex !== -1) break;
       }
     }
+    appendNode(parentIndex !== -1 ? nodeStack[parentIndex].children : rootNodes, node);
+    // Units or lessons without a parent are normal for partial courses, but an orphan Activity or Quiz is never compared
+    if (parentIndex === -1 && definition.parentTypes.length > 0 && definition.isLeaf && !definition.isLesson) {
+      report(`${node.type} has no ${definition.parentTypes.join(' or ')} above it; placed at the top level and not compared`);
+    }
+    
+    if (!definition.isLeaf) {
+      // Rows below the parent are finished (e.g. a new Unit closes the previous Unit and its lessons)
+      nodeStack.length = parentIndex + 1;
+      nodeStack.push(node);
+    }
   });
   
   return rootNodes;
@@ -218,15 +213,22 @@ function buildHierarchyTree(rows: TextRow[]): HierarchyNode[] {
 
 /**
  * Convert text rows to Hierarchy object
- * Builds hierarchical structure and creates lessons only for EdgeEx Lessons
+ * Builds hierarchical structure and creates lessons only for the vocabulary's lesson types
  */
-export function textRowsToHierarchy(rows: TextRow[], hierarchyName: string = 'Pasted Course'): Hierarchy {
-  if (rows.length === 0) {
+export function textRowsToHierarchy(
+  pastedRows: TextRow[],
+  hierarchyName: string = 'Pasted Course',
+  nodeTypes: NodeTypeDefinition[] = DEFAULT_NODE_TYPES
+): TextParseResult {
+  if (pastedRows.length === 0) {
     throw new Error('No data rows found in pasted text');
   }
   
+  const diagnostics: ParseDiagnostic[] = [];
+  const rows = completeRows(pastedRows, diagnostics);
+  
   // Build hierarchical tree
-  const tree = buildHierarchyTree(rows);
+  const tree = buildHierarchyTree(rows, nodeTypes, diagnostics);
   
   // Find the first Split to determine hierarchy name
   let name = hierarchyName;
@@ -259,65 +261,23 @@ export function textRowsToHierarchy(rows: TextRow[], hierarchyName: string = 'Pa
   const courseIdMatch = name.match(/([A-Z]+-\w+)/);
   const courseId = courseIdMatch ? courseIdMatch[1] : undefined;
   const firstSplit = rows.find(r => r.type === 'Split');
-  // Use a unique hierarchy ID - combine first split ID with timestamp to ensure uniqueness
-  // This prevents conflicts when pasting the same data into multiple courses
-  const baseId = firstSplit?.id || rows[0]?.id || '';
-  const hierarchyId = baseId ? `${baseId}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` : `hierarchy-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  
-  // Extract lessons from tree (EdgeEx Lessons, Test (Type = Test), and Exam become top-level lessons)
-  const lessons: Lesson[] = [];
-  let order = 1;
-  
-  // Recursively extract lessons from tree
-  function extractLessons(nodes: HierarchyNode[], currentSplit?: string, currentUnit?: string) {
-    nodes.forEach((node) => {
-      if (node.type === 'Split') {
-        // Recurse into split children
-        extractLessons(node.children, node.title, currentUnit);
-      } else if (node.type === 'Unit') {
-        // Recurse into unit children
-        extractLessons(node.children, currentSplit, node.title);
-      } else if (node.type === 'EdgeEx Lesson' || node.type === 'Test' || node.type === 'Exam') {
-        // This is a lesson, test, or exam - create Lesson object
-        // Collect all children (Activities, Quizzes, etc.)
-        // For Test nodes, collect Quiz children
-        // For Exam nodes, they have no children (they're leaf nodes at Split level)
-        const children = node.children.map(child => ({
-          id: child.id,
-          title: child.title,
-          type: child.type,
-        }));
-        
-        const lesson: Lesson = {
-          id: node.id, // Use ID from column 3 as unique identifier
-          title: node.title,
-          order: order++,
-          variant: node.type === 'Test' ? 'Test' : node.type === 'Exam' ? 'Exam' : undefined,
-          metadata: {
-            type: node.type,
-            unitTitle: currentUnit || '', // Exam has no Unit (it's child of Split)
-            splitTitle: currentSplit || '',
-            originalId: node.id,
-            children: children, // Store Activities/Quizzes/Test children as children (empty for Exam)
-            parentUnit: currentUnit, // Exam will have empty parentUnit
-            parentSplit: currentSplit,
-          },
-        };
-        
-        lessons.push(lesson);
-      } else {
-        // For other types, recurse into children (in case there are nested structures)
-        extractLessons(node.children, currentSplit, currentUnit);
-      }
-    });
-  }
+  // Derive the hierarchy ID from the pasted rows and the slot label: re-pasting the same text
+  // gives the same ID, while the same data pasted into different courses still gets distinct IDs
+  const baseId = firstSplit?.id || rows[0]?.id || 'hierarchy';
+  const hierarchyId = `${baseId}-${hashText([hierarchyName, ...rows.map(r => `${r.title}\t${r.type}\t${r.id}`)].join('\n'))}`;
   
-  extractLessons(tree);
+  // Extract lessons from tree (by default EdgeEx Lessons, Test (Type = Test), and Exam become top-level lessons)
+  // Activities/Quizzes stay in the tree as the lessons' children
+  const lessonTypes = getLessonTypes(nodeTypes);
+  const lessons = extractLessons(tree, lessonTypes);
   
-  // Log for debugging
   if (lessons.length === 0) {
-    console.warn('No lessons extracted from pasted text. Tree structure:', tree);
-    console.warn('Rows with EdgeEx Lesson type:', rows.filter(r => r.type === 'EdgeEx Lesson').length);
+    diagnostics.push({
+      line: 0,
+      severity: 'error',
+      message: `No lessons found; rows of type ${lessonTypes.join(', ')} are compared as lessons`,
+      text: '',
+    });
   }
   
   // Create version info
@@ -338,17 +298,23 @@ export function textRowsToHierarchy(rows: TextRow[], hierarchyName: string = 'Pa
     versions: [version],
     currentVersion: version,
     lessons,
+    tree,
   };
   
-  console.log(`Created hierarchy: ${hierarchy.name} (ID: ${hierarchy.id}) with ${lessons.length} lessons`);
+  // Problems in input order
+  diagnostics.sort((a, b) => a.line - b.line);
   
-  return hierarchy;
+  return { hierarchy, diagnostics };
 }
 
 /**
  * Process pasted text content
  */
-export function processTextContent(content: string, hierarchyName?: string): Hierarchy {
+export function processTextContent(
+  content: string,
+  hierarchyName?: string,
+  nodeTypes?: NodeTypeDefinition[]
+): TextParseResult {
   const rows = parseText(content);
-  return textRowsToHierarchy(rows, hierarchyName);
+  return textRowsToHierarchy(rows, hierarchyName, nodeTypes);
 }
@@ -0,0 +1,51 @@
+/**
+ * XLSX Reader Utility
+ * Reads Excel workbooks in the browser (SheetJS) and turns a sheet into the same records the
+ * CSV reader produces, so workbook rows go through the CSVRow -> csvRowsToHierarchies pipeline
+ */
+
+import { read, utils, WorkBook } from 'xlsx';
+import { CSVRecord } from './csvReader';
+import { findHeaderRow } from './columnMapping';
+
+/**
+ * Parse workbook bytes
+ */
+export function readWorkbook(buffer: ArrayBuffer): WorkBook {
+  const workbook = read(new Uint8Array(buffer), { type: 'array' });
+  if (workbook.SheetNames.length === 0) {
+    throw new Error('Workbook has no sheets');
+  }
+  return workbook;
+}
+
+/**
+ * Rows of a sheet as records, using the cell text Excel displays
+ * Row numbers match the row numbers shown in Excel; empty rows are skipped
+ */
+export function getSheetRecords(workbook: WorkBook, sheetName: string): CSVRecord[] {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in workbook`);
+  }
+
+  const firstRow = sheet['!ref'] ? utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '', blankrows: true });
+
+  const records: CSVRecord[] = [];
+  rows.forEach((cells, index) => {
+    const values = cells.map(cell => (cell === null || cell === undefined ? '' : String(cell)));
+    if (values.every(value => !value.trim())) return;
+    const row = firstRow + index;
+    records.push({ values, row, line: row });
+  });
+  return records;
+}
+
+/**
+ * The sheet most likely to hold lesson data: the first one with a recognizable header row
+ */
+export function findDataSheet(workbook: WorkBook): string {
+  return workbook.SheetNames.find(name => findHeaderRow(getSheetRecords(workbook, name)) !== -1)
+    || workbook.SheetNames[0];
+}